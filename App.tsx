@@ -1,26 +1,50 @@
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { Player, FantasyTeam } from './types';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { Player, FantasyTeam, League, ByeCalendar, ExposureThresholds, QbStack, RankingSource, DraftSettings, DraftPick, MockDraftSettings, ColumnMapping, ParsedLine, ParseResult, RankingsSnapshot, LeagueSettings, PlayerNote, PlayerTag, SharedView, Workspace, WorkspaceImportMode, BoardView } from './types';
 import { useLocalStorage } from './hooks/useLocalStorage';
+import { useUndoHistory } from './hooks/useUndoHistory';
 import { parseRankingsFromText } from './services/geminiService';
-import { TEAM_COLORS } from './constants';
+import { AUTO_DETECT_PARSER_ID, getParser, RANKINGS_PARSERS } from './services/parsers';
+import { getSlotForPick } from './services/draftService';
+import { DelimitedTable, detectDelimitedTable, guessColumnMapping, getHeaderSignature, parseDelimitedRankings } from './services/csvImportService';
+import { computeTiers, MIN_TIER_SENSITIVITY, MAX_TIER_SENSITIVITY } from './services/tierService';
+import { assignPlayerIds, canonicalizePlayerId, formatPlayerId, resolvePlayer } from './services/playerIdentityService';
+import { getRankTrends } from './services/snapshotService';
+import { buildValueModel } from './services/valueService';
+import { buildExposureReport } from './services/exposureService';
+import { findStacks, getStackPartners, normalizeNflTeam, parseMatchups } from './services/stackService';
+import { isMockDraftComplete, simulateMockDraft, summarizeMockDraft } from './services/mockDraftService';
+import { applyRankOverrides, getMovedSortKey } from './services/rankOverrideService';
+import { applyByeWeeks, buildByeCalendar, parseByeWeekTable } from './services/byeWeekService';
+import { createLeague, DEFAULT_LEAGUE_ID, DEFAULT_LEAGUES, deleteLeagueStorage, getLeagueStorageKey, readLeagueValue } from './services/leagueService';
+import { decodeSharedView, mergeWorkspaces, SHARE_HASH_PREFIX, WORKSPACE_VERSION } from './services/workspaceService';
+import { TEAM_COLORS, DEFAULT_DRAFT_SETTINGS, DEFAULT_MOCK_DRAFT_SETTINGS, DEFAULT_EXPOSURE_THRESHOLDS, DEFAULT_LEAGUE_SETTINGS, DEFAULT_PLAYER_TAGS, POSITIONS_TO_DISPLAY, POSITION_FULL_NAMES, FLEX_POSITIONS, SUPERFLEX_POSITIONS, BOARD_VIEW_OPTIONS } from './constants';
+import ConsensusPanel from './components/ConsensusPanel';
+import DraftPanel from './components/DraftPanel';
+import PlayerTable from './components/PlayerTable';
+import ColumnMappingDialog from './components/ColumnMappingDialog';
+import ParseReport from './components/ParseReport';
+import AliasManager from './components/AliasManager';
+import TagManager from './components/TagManager';
+import SnapshotPanel from './components/SnapshotPanel';
+import RosterPanel from './components/RosterPanel';
+import WorkspacePanel from './components/WorkspacePanel';
+import SharedBoard from './components/SharedBoard';
+import CombinedBoard from './components/CombinedBoard';
+import ValuePanel from './components/ValuePanel';
+import TradePanel from './components/TradePanel';
+import LeagueSwitcher from './components/LeagueSwitcher';
+import MockDraftPanel from './components/MockDraftPanel';
+import ExposurePanel from './components/ExposurePanel';
+import StackPanel from './components/StackPanel';
+import ByeWeekPanel from './components/ByeWeekPanel';
+import ExportPanel from './components/ExportPanel';
+import CheatSheet from './components/CheatSheet';
+import UndoToast from './components/UndoToast';
 
-// --- Helper Components & Icons (defined outside App to prevent re-renders) ---
+// How long typing in the rankings box pauses before the text is re-parsed and saved.
+const REPARSE_DELAY_MS = 400;
 
-const StarIcon: React.FC<{ isFilled: boolean; className?: string }> = ({ isFilled, className = "w-6 h-6" }) => (
-  <svg
-    xmlns="http://www.w3.org/2000/svg"
-    viewBox="0 0 24 24"
-    fill={isFilled ? "currentColor" : "none"}
-    stroke="currentColor"
-    strokeWidth="2"
-    strokeLinecap="round"
-    strokeLinejoin="round"
-    className={`${className} ${isFilled ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
-    aria-label={isFilled ? 'Favorited' : 'Not favorited'}
-  >
-    <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>
-  </svg>
-);
+// --- Helper Components & Icons (defined outside App to prevent re-renders) ---
 
 const LoaderIcon: React.FC = () => (
   <div className="flex flex-col items-center justify-center space-y-4">
@@ -40,65 +64,153 @@ interface RankingsInputFormProps {
   hasPlayers: boolean;
   text: string;
   onTextChange: (newText: string) => void;
+  isDraftMode: boolean;
+  onToggleDraftMode: () => void;
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  parserId: string;
+  onParserChange: (parserId: string) => void;
+  detectedParserId?: string;
 }
 
-const RankingsInputForm: React.FC<RankingsInputFormProps> = ({ onSubmit, isLoading, hideUnselectedPlayers, onToggleHide, hasPlayers, text, onTextChange }) => {
+const RankingsInputForm: React.FC<RankingsInputFormProps> = ({ onSubmit, isLoading, hideUnselectedPlayers, onToggleHide, hasPlayers, text, onTextChange, isDraftMode, onToggleDraftMode, textareaRef, parserId, onParserChange, detectedParserId }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (text.trim()) {
-      onSubmit(text.trim());
+      onSubmit(text);
+    }
+  };
+
+  const loadFile = async (file: File) => {
+    const fileText = await file.text();
+    onTextChange(fileText);
+    if (fileText.trim()) {
+      onSubmit(fileText);
     }
   };
 
+  const handleDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      loadFile(file);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      loadFile(file);
+    }
+    e.target.value = ''; // Allow re-uploading the same file
+  };
+
   return (
     <form onSubmit={handleSubmit} className="flex flex-col gap-3 w-full">
       <textarea
+        ref={textareaRef}
         value={text}
         onChange={(e) => onTextChange(e.target.value)}
-        placeholder={`Paste your space-delimited rankings here...\nExample:\n1. Christian McCaffrey RB\n2. Breece Hall RB\n3. Josh Allen QB1`}
-        className="flex-grow bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-4 py-2 h-48 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-shadow resize-y font-mono text-sm"
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        placeholder={`Paste your rankings here, or drop a CSV/TSV file. The format is detected automatically...\nExample:\n1. Christian McCaffrey RB\n2. Breece Hall RB\n3. Josh Allen QB1`}
+        className={`flex-grow bg-gray-800 text-gray-200 border rounded-md px-4 py-2 h-48 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition-shadow resize-y font-mono text-sm ${isDragging ? 'border-cyan-400 ring-2 ring-cyan-500' : 'border-gray-600'}`}
         disabled={isLoading}
         aria-label="Fantasy rankings input"
       />
-      <div className="flex gap-2 self-end">
-        <button
-          type="button"
-          onClick={onToggleHide}
-          disabled={!hasPlayers}
-          className="bg-gray-600 text-white font-bold py-2 px-6 rounded-md hover:bg-gray-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
-        >
-          {hideUnselectedPlayers ? 'Show All' : 'Hide Others'}
-        </button>
-        <button
-          type="submit"
-          disabled={isLoading || !text.trim()}
-          className="bg-cyan-600 text-white font-bold py-2 px-6 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <select
+          value={parserId}
+          onChange={(e) => onParserChange(e.target.value)}
+          disabled={isLoading}
+          className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="Rankings format"
         >
-          {isLoading ? 'Visualizing...' : 'Visualize Rankings'}
-        </button>
+          <option value={AUTO_DETECT_PARSER_ID}>
+            Auto-detect format{parserId === AUTO_DETECT_PARSER_ID && detectedParserId ? ` (${getParser(detectedParserId)?.name ?? detectedParserId})` : ''}
+          </option>
+          {RANKINGS_PARSERS.map(parser => (
+            <option key={parser.id} value={parser.id} title={parser.example}>{parser.name}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="bg-gray-600 text-white font-bold py-2 px-6 rounded-md hover:bg-gray-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Upload CSV
+          </button>
+          <button
+            type="button"
+            onClick={onToggleDraftMode}
+            className={`font-bold py-2 px-6 rounded-md transition-colors ${isDraftMode ? 'bg-cyan-800 text-cyan-100 hover:bg-cyan-700' : 'bg-gray-600 text-white hover:bg-gray-500'}`}
+          >
+            {isDraftMode ? 'Exit Draft Mode' : 'Draft Mode'}
+          </button>
+          <button
+            type="button"
+            onClick={onToggleHide}
+            disabled={!hasPlayers}
+            className="bg-gray-600 text-white font-bold py-2 px-6 rounded-md hover:bg-gray-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            {hideUnselectedPlayers ? 'Show All' : 'Hide Others'}
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading || !text.trim()}
+            className="bg-cyan-600 text-white font-bold py-2 px-6 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            {isLoading ? 'Visualizing...' : 'Visualize Rankings'}
+          </button>
+        </div>
       </div>
     </form>
   );
 };
 
+// How a change is recorded for undo: changes sharing a merge key in quick succession are undone together,
+// and destructive ones show a toast offering to undo them.
+interface ChangeOptions {
+  mergeKey?: string;
+  toast?: string;
+}
+
 interface TeamManagerProps {
   teams: FantasyTeam[];
-  favoriteNames: string[];
+  favoriteIds: string[];
   activeTeamNames: string[];
+  unmatchedPlayers: Record<string, string[]>;
+  teamRosters: Record<string, Player[]>;
   setTeams: React.Dispatch<React.SetStateAction<FantasyTeam[]>>;
-  setFavoriteNames: React.Dispatch<React.SetStateAction<string[]>>;
+  setFavoriteIds: React.Dispatch<React.SetStateAction<string[]>>;
   setActiveTeamNames: React.Dispatch<React.SetStateAction<string[]>>;
+  onTogglePlayerOnTeam: (playerId: string, teamName: string) => void;
+  onRecordChange: (label: string, options?: ChangeOptions) => void;
 }
 
-const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteNames, activeTeamNames, setTeams, setFavoriteNames, setActiveTeamNames }) => {
+const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteIds, activeTeamNames, unmatchedPlayers, teamRosters, setTeams, setFavoriteIds, setActiveTeamNames, onTogglePlayerOnTeam, onRecordChange }) => {
     const [newTeamName, setNewTeamName] = useState('');
+    const [editingTeamName, setEditingTeamName] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
 
     const handleCreateTeam = (e: React.FormEvent) => {
         e.preventDefault();
         const trimmedName = newTeamName.trim();
 
-        if (favoriteNames.length === 0) {
+        if (favoriteIds.length === 0) {
             alert("Please favorite players (using the star icon) to create a team.");
             return;
         }
@@ -113,20 +225,80 @@ const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteNames, activeT
 
         const newTeam: FantasyTeam = {
             name: trimmedName,
-            players: [...favoriteNames].sort(),
+            players: [...favoriteIds].sort(),
             color: TEAM_COLORS[teams.length % TEAM_COLORS.length],
         };
+        onRecordChange(`save team ${trimmedName}`, { toast: `Saved ${trimmedName} and cleared your favorites.` });
         setTeams(prevTeams => [...prevTeams, newTeam]);
         setNewTeamName('');
-        setFavoriteNames([]); // Clear favorites after creating a team
+        setFavoriteIds([]); // Clear favorites after creating a team
     };
 
     const handleDeleteTeam = useCallback((teamNameToDelete: string) => {
+        onRecordChange(`delete team ${teamNameToDelete}`, { toast: `Deleted ${teamNameToDelete}.` });
         setTeams(prevTeams => prevTeams.filter(team => team.name !== teamNameToDelete));
         setActiveTeamNames(prevActive => prevActive.filter(name => name !== teamNameToDelete));
-    }, [setTeams, setActiveTeamNames]);
+        if (editingTeamName === teamNameToDelete) setEditingTeamName(null);
+    }, [setTeams, setActiveTeamNames, editingTeamName, onRecordChange]);
+
+    const handleStartEditing = (teamName: string) => {
+        setEditingTeamName(prev => prev === teamName ? null : teamName);
+        setRenameValue(teamName);
+    };
+
+    const handleRenameTeam = (e: React.FormEvent) => {
+        e.preventDefault();
+        const oldName = editingTeamName;
+        const trimmedName = renameValue.trim();
+        if (!oldName || trimmedName === oldName) return;
+        if (!trimmedName) {
+            alert("Please enter a team name.");
+            return;
+        }
+        if (teams.some(team => team.name !== oldName && team.name.toLowerCase() === trimmedName.toLowerCase())) {
+            alert("A team with this name already exists.");
+            return;
+        }
+        onRecordChange(`rename ${oldName} to ${trimmedName}`);
+        setTeams(prevTeams => prevTeams.map(team => team.name === oldName ? { ...team, name: trimmedName } : team));
+        setActiveTeamNames(prevActive => prevActive.map(name => name === oldName ? trimmedName : name));
+        setEditingTeamName(trimmedName);
+    };
+
+    const handleChangeColor = (teamName: string, color: string) => {
+        onRecordChange(`recolor ${teamName}`, { mergeKey: `color:${teamName}` });
+        setTeams(prevTeams => prevTeams.map(team => team.name === teamName ? { ...team, color } : team));
+    };
+
+    const handleDuplicateTeam = (teamName: string) => {
+        onRecordChange(`duplicate ${teamName}`);
+        setTeams(prevTeams => {
+            const index = prevTeams.findIndex(team => team.name === teamName);
+            if (index === -1) return prevTeams;
+            const takenNames = new Set(prevTeams.map(team => team.name.toLowerCase()));
+            let copyName = `${teamName} (copy)`;
+            for (let i = 2; takenNames.has(copyName.toLowerCase()); i++) {
+                copyName = `${teamName} (copy ${i})`;
+            }
+            const copy: FantasyTeam = { ...prevTeams[index], name: copyName, players: [...prevTeams[index].players] };
+            return [...prevTeams.slice(0, index + 1), copy, ...prevTeams.slice(index + 1)];
+        });
+    };
+
+    const handleMoveTeam = (teamName: string, offset: number) => {
+        onRecordChange(`move ${teamName}`);
+        setTeams(prevTeams => {
+            const index = prevTeams.findIndex(team => team.name === teamName);
+            const target = index + offset;
+            if (index === -1 || target < 0 || target >= prevTeams.length) return prevTeams;
+            const reordered = [...prevTeams];
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return reordered;
+        });
+    };
 
     const handleToggleTeam = useCallback((teamName: string) => {
+        onRecordChange(`${activeTeamNames.includes(teamName) ? 'hide' : 'show'} ${teamName}`);
         setActiveTeamNames(prevActive => {
             const newActive = new Set(prevActive);
             if (newActive.has(teamName)) {
@@ -136,7 +308,7 @@ const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteNames, activeT
             }
             return Array.from(newActive);
         });
-    }, [setActiveTeamNames]);
+    }, [setActiveTeamNames, activeTeamNames, onRecordChange]);
 
     return (
         <div className="w-full bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
@@ -148,13 +320,13 @@ const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteNames, activeT
                     onChange={(e) => setNewTeamName(e.target.value)}
                     placeholder="New Team Name"
                     className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 transition disabled:bg-gray-800 disabled:cursor-not-allowed"
-                    disabled={favoriteNames.length === 0}
+                    disabled={favoriteIds.length === 0}
                     aria-label="New team name"
                 />
                 <button
                     type="submit"
                     className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
-                    disabled={!newTeamName.trim() || favoriteNames.length === 0}
+                    disabled={!newTeamName.trim() || favoriteIds.length === 0}
                     aria-label="Create new team from favorited players"
                 >
                     Save Team
@@ -162,22 +334,92 @@ const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteNames, activeT
             </form>
             <div className="flex flex-col gap-2">
                 {teams.length === 0 && <p className="text-gray-400 text-sm text-center">No teams saved. Star players and enter a name above to create one.</p>}
-                {teams.map(team => {
+                {teams.map((team, index) => {
                     const isActive = activeTeamNames.includes(team.name);
+                    const isEditing = editingTeamName === team.name;
+                    const unmatched = unmatchedPlayers[team.name] || [];
+                    const roster = [...(teamRosters[team.name] || [])].sort((a, b) => a.rank - b.rank);
                     return (
-                        <div key={team.name} className="flex items-center justify-between gap-2 bg-gray-700 p-2 rounded-md">
-                           <button 
-                             onClick={() => handleToggleTeam(team.name)} 
-                             className={`flex-grow text-left px-3 py-1 rounded-md transition-colors text-sm font-medium border-2 ${isActive ? 'text-white' : 'border-transparent text-gray-200 bg-gray-600 hover:bg-gray-500'}`}
-                             style={{ backgroundColor: isActive ? team.color : undefined, borderColor: isActive ? team.color : undefined }}
-                           >
-                               {team.name} ({team.players.length})
-                           </button>
-                           <button onClick={() => handleDeleteTeam(team.name)} className="text-gray-400 hover:text-red-400 p-1 rounded-full" aria-label={`Delete team ${team.name}`}>
-                               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                               </svg>
-                           </button>
+                        <div key={team.name} className="flex flex-col gap-1 bg-gray-700 p-2 rounded-md">
+                            <div className="flex items-center justify-between gap-2">
+                               <button 
+                                 onClick={() => handleToggleTeam(team.name)} 
+                                 className={`flex-grow text-left px-3 py-1 rounded-md transition-colors text-sm font-medium border-2 ${isActive ? 'text-white' : 'border-transparent text-gray-200 bg-gray-600 hover:bg-gray-500'}`}
+                                 style={{ backgroundColor: isActive ? team.color : undefined, borderColor: isActive ? team.color : undefined }}
+                               >
+                                   {team.name} ({team.players.length})
+                               </button>
+                               <button onClick={() => handleStartEditing(team.name)} className={`p-1 rounded-full ${isEditing ? 'text-cyan-300' : 'text-gray-400 hover:text-cyan-300'}`} aria-label={`Edit team ${team.name}`} aria-expanded={isEditing}>
+                                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                       <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                                   </svg>
+                               </button>
+                               <button onClick={() => handleDeleteTeam(team.name)} className="text-gray-400 hover:text-red-400 p-1 rounded-full" aria-label={`Delete team ${team.name}`}>
+                                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                       <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                                   </svg>
+                               </button>
+                            </div>
+                            {unmatched.length > 0 && (
+                                <p className="text-xs text-yellow-300 px-1" title={unmatched.join(', ')}>
+                                    ⚠ {unmatched.length} not in current rankings: {unmatched.join(', ')}
+                                </p>
+                            )}
+                            {isEditing && (
+                                <div className="flex flex-col gap-2 border-t border-gray-600 pt-2 text-sm">
+                                    <form onSubmit={handleRenameTeam} className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            className="flex-grow bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                            aria-label={`New name for ${team.name}`}
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={!renameValue.trim() || renameValue.trim() === team.name}
+                                            className="bg-cyan-600 text-white font-semibold py-1 px-3 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                                        >
+                                            Rename
+                                        </button>
+                                    </form>
+                                    <div className="flex flex-wrap items-center gap-1.5">
+                                        {TEAM_COLORS.map(color => (
+                                            <button
+                                                key={color}
+                                                onClick={() => handleChangeColor(team.name, color)}
+                                                className={`h-6 w-6 rounded-full border-2 ${team.color === color ? 'border-white' : 'border-transparent'}`}
+                                                style={{ backgroundColor: color }}
+                                                aria-label={`Use color ${color} for ${team.name}`}
+                                            />
+                                        ))}
+                                        <input
+                                            type="color"
+                                            value={team.color}
+                                            onChange={(e) => handleChangeColor(team.name, e.target.value)}
+                                            className="h-6 w-8 bg-transparent cursor-pointer"
+                                            aria-label={`Custom color for ${team.name}`}
+                                        />
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button onClick={() => handleMoveTeam(team.name, -1)} disabled={index === 0} className="bg-gray-600 hover:bg-gray-500 text-gray-100 py-1 px-2 rounded-md disabled:opacity-40 disabled:cursor-not-allowed" aria-label={`Move ${team.name} up`}>▲</button>
+                                        <button onClick={() => handleMoveTeam(team.name, 1)} disabled={index === teams.length - 1} className="bg-gray-600 hover:bg-gray-500 text-gray-100 py-1 px-2 rounded-md disabled:opacity-40 disabled:cursor-not-allowed" aria-label={`Move ${team.name} down`}>▼</button>
+                                        <button onClick={() => handleDuplicateTeam(team.name)} className="bg-gray-600 hover:bg-gray-500 text-gray-100 py-1 px-3 rounded-md">Duplicate</button>
+                                    </div>
+                                    {roster.length === 0 ? (
+                                        <p className="text-xs text-gray-400">No players from the current rankings. Use the team menu on a player row to add one.</p>
+                                    ) : (
+                                        <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+                                            {roster.map(player => (
+                                                <li key={player.id} className="flex items-center justify-between gap-2 bg-gray-800 px-2 py-0.5 rounded">
+                                                    <span className="text-gray-200 truncate">{player.name} <span className="text-gray-400 text-xs">{player.position}{player.positionalRank ?? ''}</span></span>
+                                                    <button onClick={() => onTogglePlayerOnTeam(player.id, team.name)} className="text-gray-400 hover:text-red-400 text-xs" aria-label={`Remove ${player.name} from ${team.name}`}>Remove</button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     );
                 })}
@@ -186,143 +428,752 @@ const TeamManager: React.FC<TeamManagerProps> = ({ teams, favoriteNames, activeT
     );
 }
 
-interface PlayerTableProps {
-  players: Player[];
-  favorites: Set<string>;
-  onToggleFavorite: (playerName: string) => void;
-  playerHighlightColors: Record<string, string[]>;
-}
-
-const PlayerTable: React.FC<PlayerTableProps> = ({ players, favorites, onToggleFavorite, playerHighlightColors }) => (
-    <div className="w-full overflow-x-auto rounded-lg shadow-xl">
-      <table className="min-w-full divide-y divide-gray-700">
-        <thead className="bg-gray-800 sticky top-0">
-          <tr>
-            <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-12">Fav</th>
-            <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-20">Pos Rank</th>
-            <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-16">Ovr Rank</th>
-            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Player</th>
-          </tr>
-        </thead>
-        <tbody className="bg-gray-700 divide-y divide-gray-600">
-          {players.map((player) => {
-            const isFavorite = favorites.has(player.name);
-            const highlightColors = playerHighlightColors[player.name] || [];
-            
-            let rowStyle: React.CSSProperties = {};
-            if (highlightColors.length === 1) {
-              rowStyle = { backgroundColor: `${highlightColors[0]}40` }; // Add alpha for transparency
-            } else if (highlightColors.length > 1) {
-              const gradient = `linear-gradient(to right, ${highlightColors.map(c => `${c}99`).join(', ')})`; // Add alpha
-              rowStyle = { backgroundImage: gradient };
-            }
-
-            return (
-              <tr 
-                key={`${player.rank}-${player.name}`} 
-                className={`transition-colors duration-200 ${isFavorite ? 'bg-yellow-900/40' : ''} hover:bg-gray-600/50`}
-                style={rowStyle}
-              >
-                <td className="px-2 py-3 text-center bg-transparent">
-                  <button onClick={() => onToggleFavorite(player.name)} className="cursor-pointer" aria-label={`Toggle favorite for ${player.name}`}>
-                    <StarIcon isFilled={isFavorite} />
-                  </button>
-                </td>
-                <td className="px-2 py-3 whitespace-nowrap text-center text-sm text-gray-300 bg-transparent">
-                    {player.positionalRank ? player.positionalRank : player.position}
-                </td>
-                <td className="px-2 py-3 whitespace-nowrap text-center text-sm font-medium text-gray-200 bg-transparent">{player.rank}</td>
-                <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-100 bg-transparent">{player.name}</td>
-              </tr>
-            );
-          })}
-        </tbody>
-      </table>
-    </div>
-);
-
 // --- Main App Component ---
 
-const POSITIONS_TO_DISPLAY = ['QB', 'RB', 'WR', 'TE', 'K', 'DST'];
-const POSITION_FULL_NAMES: Record<string, string> = {
-  QB: 'Quarterbacks',
-  RB: 'Running Backs',
-  WR: 'Wide Receivers',
-  TE: 'Tight Ends',
-  K: 'Kickers',
-  DST: 'Defense/Special Teams'
-};
+// What undo and redo put back. The rankings are the text and result of the last parse, so a
+// re-parse can be undone without parsing again.
+interface UndoableState {
+  favoriteIds: string[];
+  teams: FantasyTeam[];
+  activeTeamNames: string[];
+  rankings: { text: string; result: ParseResult } | null;
+}
+
+// Inputs that keep their own Ctrl+Z, which the app's undo shouldn't take over.
+const isTextField = (target: EventTarget | null): boolean =>
+  target instanceof HTMLTextAreaElement
+  || (target instanceof HTMLElement && target.isContentEditable)
+  || (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'submit', 'range', 'color'].includes(target.type));
 
 export default function App() {
-  const [players, setPlayers] = useState<Player[]>([]);
+  const [parsedPlayers, setParsedPlayers] = useState<Player[]>([]);
+  const [parseLines, setParseLines] = useState<ParsedLine[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [favoriteNames, setFavoriteNames] = useLocalStorage<string[]>('fantasyFavorites', []);
-  const [teams, setTeams] = useLocalStorage<FantasyTeam[]>('fantasyTeams', []);
-  const [activeTeamNames, setActiveTeamNames] = useLocalStorage<string[]>('activeFantasyTeams', []);
+  const [storedLeagues, setLeagues] = useLocalStorage<League[]>('fantasyLeagues', DEFAULT_LEAGUES);
+  const [storedActiveLeagueId, setActiveLeagueId] = useLocalStorage<string>('fantasyActiveLeague', DEFAULT_LEAGUE_ID);
+  const leagues = storedLeagues.length > 0 ? storedLeagues : DEFAULT_LEAGUES;
+  const activeLeagueId = leagues.some(league => league.id === storedActiveLeagueId) ? storedActiveLeagueId : leagues[0].id;
+  const activeLeagueName = leagues.find(league => league.id === activeLeagueId)?.name ?? leagues[0].name;
+  // League data lives under per-league storage keys; switching leagues changes the keys and the hooks re-read them.
+  const leagueKey = (key: string) => getLeagueStorageKey(activeLeagueId, key);
+  const [favoriteIds, setFavoriteIds] = useLocalStorage<string[]>(leagueKey('fantasyFavorites'), []);
+  const [teams, setTeams] = useLocalStorage<FantasyTeam[]>(leagueKey('fantasyTeams'), []);
+  const [activeTeamNames, setActiveTeamNames] = useLocalStorage<string[]>(leagueKey('activeFantasyTeams'), []);
   const [hideUnselectedPlayers, setHideUnselectedPlayers] = useState(false);
-  const [rawText, setRawText] = useLocalStorage<string>('fantasyRankingsText', '');
+  const [rawText, setRawText] = useLocalStorage<string>(leagueKey('fantasyRankingsText'), '', REPARSE_DELAY_MS);
+  const [rankingSources, setRankingSources] = useLocalStorage<RankingSource[]>(leagueKey('fantasyRankingSources'), []);
+  const [isDraftMode, setIsDraftMode] = useLocalStorage<boolean>(leagueKey('fantasyDraftMode'), false);
+  const [draftSettings, setDraftSettings] = useLocalStorage<DraftSettings>(leagueKey('fantasyDraftSettings'), DEFAULT_DRAFT_SETTINGS);
+  const [draftPicks, setDraftPicks] = useLocalStorage<DraftPick[]>(leagueKey('fantasyDraftPicks'), []);
+  const [hideDrafted, setHideDrafted] = useState(false);
+  const [slotOverride, setSlotOverride] = useState<number | null>(null);
+  const [mockDraftSettings, setMockDraftSettings] = useLocalStorage<MockDraftSettings>(leagueKey('fantasyMockDraftSettings'), DEFAULT_MOCK_DRAFT_SETTINGS);
+  // Mock drafts are rehearsals, so their picks aren't saved; null when no mock draft is running.
+  const [mockPicks, setMockPicks] = useState<DraftPick[] | null>(null);
+  const [tierSensitivity, setTierSensitivity] = useLocalStorage<number>(leagueKey('fantasyTierSensitivity'), 5);
+  const [manualTierBreakIds, setManualTierBreakIds] = useLocalStorage<string[]>(leagueKey('fantasyTierBreaks'), []);
+  const [playerAliases, setPlayerAliases] = useLocalStorage<Record<string, string>>('fantasyPlayerAliases', {});
+  const [snapshots, setSnapshots] = useLocalStorage<RankingsSnapshot[]>(leagueKey('fantasyRankingSnapshots'), []);
+  const [trendBaselineId, setTrendBaselineId] = useLocalStorage<string | null>(leagueKey('fantasyTrendBaseline'), null);
+  const [columnMappings, setColumnMappings] = useLocalStorage<Record<string, ColumnMapping>>('fantasyColumnMappings', {});
+  const [leagueSettings, setLeagueSettings] = useLocalStorage<LeagueSettings>(leagueKey('fantasyLeagueSettings'), DEFAULT_LEAGUE_SETTINGS);
+  const [pendingImport, setPendingImport] = useState<{ table: DelimitedTable; mapping: ColumnMapping } | null>(null);
+  const [sharedView, setSharedView] = useState<SharedView | null>(null);
+  const [boardView, setBoardView] = useLocalStorage<BoardView>('fantasyBoardView', 'POSITION');
+  const [overallPositions, setOverallPositions] = useLocalStorage<string[]>('fantasyOverallPositions', []);
+  const [flexPositions, setFlexPositions] = useLocalStorage<string[]>('fantasyFlexPositions', []);
+  const [flexIncludesQb, setFlexIncludesQb] = useLocalStorage<boolean>('fantasyFlexIncludesQb', false);
+  const [showValues, setShowValues] = useLocalStorage<boolean>('fantasyShowValues', true);
+  const [rankingsParserId, setRankingsParserId] = useLocalStorage<string>(leagueKey('fantasyRankingsParser'), AUTO_DETECT_PARSER_ID);
+  const [detectedParserId, setDetectedParserId] = useState<string | undefined>(undefined);
+  const [rankOverrides, setRankOverrides] = useLocalStorage<Record<string, number>>(leagueKey('fantasyRankOverrides'), {});
+  const [playerTags, setPlayerTags] = useLocalStorage<PlayerTag[]>('fantasyPlayerTags', DEFAULT_PLAYER_TAGS);
+  const [playerNotes, setPlayerNotes] = useLocalStorage<Record<string, PlayerNote>>('fantasyPlayerNotes', {});
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [nflTeamFilter, setNflTeamFilter] = useState('');
+  const [scheduleText, setScheduleText] = useLocalStorage<string>('fantasySchedule', '');
+  const [byeWeekText, setByeWeekText] = useLocalStorage<string>('fantasyByeWeeks', '');
+  const [hoveredQbId, setHoveredQbId] = useState<string | null>(null);
+  const [exposureThresholds, setExposureThresholds] = useLocalStorage<ExposureThresholds>(leagueKey('fantasyExposureThresholds'), DEFAULT_EXPOSURE_THRESHOLDS);
+  const rankingsTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const parseRequestIdRef = useRef(0);
+  const reparseTimeoutRef = useRef<number | undefined>(undefined);
 
-  const favoritesSet = useMemo(() => new Set(favoriteNames), [favoriteNames]);
+  const sourcePlayers = useMemo(() => assignPlayerIds(parsedPlayers, playerAliases), [parsedPlayers, playerAliases]);
 
-  const handleToggleFavorite = useCallback((playerName: string) => {
-    setFavoriteNames(prev => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(playerName)) {
-        newFavorites.delete(playerName);
-      } else {
-        newFavorites.add(playerName);
+  // Personal rank overrides are keyed like favorites, so they're resolved the same way before use.
+  const resolvedRankOverrides = useMemo(() => {
+    const sourcePlayersById = new Map<string, Player>(sourcePlayers.map(player => [player.id, player]));
+    const resolved: Record<string, number> = {};
+    for (const [storedId, sortKey] of Object.entries<number>(rankOverrides)) {
+      const canonical = canonicalizePlayerId(storedId, playerAliases);
+      resolved[resolvePlayer(canonical, sourcePlayersById)?.id ?? canonical] = sortKey;
+    }
+    return resolved;
+  }, [rankOverrides, sourcePlayers, playerAliases]);
+
+  const byeWeekTable = useMemo(() => parseByeWeekTable(byeWeekText), [byeWeekText]);
+
+  // Byes from the pasted table only fill in players whose rankings didn't list one.
+  const players = useMemo(
+    () => applyByeWeeks(applyRankOverrides(sourcePlayers, resolvedRankOverrides), byeWeekTable.byeWeeks),
+    [sourcePlayers, resolvedRankOverrides, byeWeekTable]
+  );
+  const playersById = useMemo(() => new Map(players.map(player => [player.id, player])), [players]);
+
+  // Favorites, teams and picks may hold raw names saved by older versions or ids from before an alias
+  // was added; this maps them to the identity used by the current rankings.
+  const resolveStoredId = useCallback((stored: string) => {
+    const canonical = canonicalizePlayerId(stored, playerAliases);
+    return resolvePlayer(canonical, playersById)?.id ?? canonical;
+  }, [playerAliases, playersById]);
+
+  const overriddenPlayerIds = useMemo(() => new Set(Object.keys(resolvedRankOverrides)), [resolvedRankOverrides]);
+
+  const handleMovePlayer = useCallback((playerId: string, targetId: string, placeAfter: boolean) => {
+    const sortKey = getMovedSortKey(players, resolvedRankOverrides, playerId, targetId, placeAfter);
+    if (sortKey === null) return;
+    setRankOverrides(prev => {
+      const next = Object.fromEntries(Object.entries<number>(prev).filter(([storedId]) => resolveStoredId(storedId) !== playerId));
+      return { ...next, [playerId]: sortKey };
+    });
+  }, [players, resolvedRankOverrides, setRankOverrides, resolveStoredId]);
+
+  const handleResetRank = useCallback((playerId: string) => {
+    setRankOverrides(prev => Object.fromEntries(Object.entries<number>(prev).filter(([storedId]) => resolveStoredId(storedId) !== playerId)));
+  }, [setRankOverrides, resolveStoredId]);
+
+  const resolvedPlayerNotes = useMemo(() => {
+    const resolved: Record<string, PlayerNote> = {};
+    for (const [storedId, note] of Object.entries<PlayerNote>(playerNotes)) {
+      resolved[resolveStoredId(storedId)] = note;
+    }
+    return resolved;
+  }, [playerNotes, resolveStoredId]);
+
+  const tagCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const note of Object.values<PlayerNote>(playerNotes)) {
+      for (const tagName of note.tags) {
+        counts[tagName] = (counts[tagName] || 0) + 1;
       }
-      return Array.from(newFavorites);
+    }
+    return counts;
+  }, [playerNotes]);
+
+  const handleUpdatePlayerNote = useCallback((playerId: string, note: PlayerNote) => {
+    setPlayerNotes(prev => {
+      const next = Object.fromEntries(Object.entries<PlayerNote>(prev).filter(([storedId]) => resolveStoredId(storedId) !== playerId));
+      return note.text.trim() || note.tags.length > 0 ? { ...next, [playerId]: note } : next;
     });
-  }, [setFavoriteNames]);
+  }, [setPlayerNotes, resolveStoredId]);
+
+  const handleDeleteTag = useCallback((tagName: string) => {
+    setPlayerTags(prev => prev.filter(tag => tag.name !== tagName));
+    setPlayerNotes(prev => {
+      const next: Record<string, PlayerNote> = {};
+      for (const [storedId, note] of Object.entries<PlayerNote>(prev)) {
+        const tags = note.tags.filter(name => name !== tagName);
+        if (note.text.trim() || tags.length > 0) {
+          next[storedId] = { ...note, tags };
+        }
+      }
+      return next;
+    });
+    setTagFilter(prev => prev.filter(name => name !== tagName));
+  }, [setPlayerTags, setPlayerNotes]);
+
+  const toggleTagFilter = (tagName: string) => {
+    setTagFilter(prev => prev.includes(tagName) ? prev.filter(name => name !== tagName) : [...prev, tagName]);
+  };
+
+  const favoritesSet = useMemo(() => new Set(favoriteIds.map(resolveStoredId)), [favoriteIds, resolveStoredId]);
+  const resolvedFavoriteIds = useMemo(() => Array.from(favoritesSet), [favoritesSet]);
+
+  const applyParseResult = useCallback((result: ParseResult) => {
+    setParsedPlayers(result.players);
+    setParseLines(result.lines);
+    setDetectedParserId(result.parserId);
+  }, []);
+
+  // The text and result of the last parse put on the board; null until rankings are first parsed.
+  const lastParseRef = useRef<{ text: string; result: ParseResult } | null>(null);
+  const [undoToast, setUndoToast] = useState<{ id: number; message: string } | null>(null);
+
+  const history = useUndoHistory<UndoableState>(
+    () => ({ favoriteIds, teams, activeTeamNames, rankings: lastParseRef.current }),
+    snapshot => {
+      setFavoriteIds(snapshot.favoriteIds);
+      setTeams(snapshot.teams);
+      setActiveTeamNames(snapshot.activeTeamNames);
+      if (snapshot.rankings && snapshot.rankings !== lastParseRef.current) {
+        // Drop any re-parse still pending or running for the text being replaced.
+        window.clearTimeout(reparseTimeoutRef.current);
+        parseRequestIdRef.current++;
+        lastParseRef.current = snapshot.rankings;
+        setRawText(snapshot.rankings.text);
+        applyParseResult(snapshot.rankings.result);
+        setIsLoading(false);
+        setError(null);
+      }
+    }
+  );
+  const { record: recordHistory, undo, redo, clear: clearHistory } = history;
+
+  const recordChange = useCallback((label: string, options: ChangeOptions = {}) => {
+    recordHistory(label, options.mergeKey);
+    // Once something else has changed, the toast's undo would revert that instead.
+    setUndoToast(options.toast ? { id: Date.now(), message: options.toast } : null);
+  }, [recordHistory]);
+
+  const handleUndo = useCallback(() => {
+    undo();
+    setUndoToast(null);
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    redo();
+    setUndoToast(null);
+  }, [redo]);
+
+  const handleDismissToast = useCallback(() => setUndoToast(null), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Read through a ref so the handler keeps its identity across star clicks and the memoized tables can skip them.
+  const latestFavoritesRef = useRef({ favoritesSet, playersById });
+  latestFavoritesRef.current = { favoritesSet, playersById };
+
+  const handleToggleFavorite = useCallback((playerId: string) => {
+    const { favoritesSet: favorites, playersById: players } = latestFavoritesRef.current;
+    const name = players.get(playerId)?.name ?? playerId;
+    recordChange(`${favorites.has(playerId) ? 'unfavorite' : 'favorite'} ${name}`);
+    setFavoriteIds(prev => {
+      const remaining = prev.filter(stored => resolveStoredId(stored) !== playerId);
+      return remaining.length === prev.length ? [...prev, playerId] : remaining;
+    });
+  }, [setFavoriteIds, resolveStoredId, recordChange]);
   
   const handleToggleHide = useCallback(() => {
     setHideUnselectedPlayers(prev => !prev);
   }, []);
 
-  const handleSubmitRankings = useCallback(async (text: string) => {
-    setIsLoading(true);
+  const handleToggleDraftMode = useCallback(() => {
+    setIsDraftMode(prev => !prev);
+  }, [setIsDraftMode]);
+
+  const draftedSlots = useMemo(() => {
+    const slotMap = new Map<string, number>();
+    for (const pick of draftPicks) {
+      slotMap.set(resolveStoredId(pick.playerId), pick.slot);
+    }
+    return slotMap;
+  }, [draftPicks, resolveStoredId]);
+
+  const handleDraftPlayer = useCallback((playerId: string) => {
+    const player = playersById.get(playerId);
+    if (!player) return;
+    const pickIndex = draftPicks.findIndex(pick => resolveStoredId(pick.playerId) === playerId);
+    if (pickIndex !== -1) {
+      // Clicking the latest pick again takes it back. Rounds and slots come from each pick's place in
+      // the list, so taking back an earlier pick would shift every pick after it.
+      if (pickIndex !== draftPicks.length - 1) {
+        alert("Only the latest pick can be taken back. Use Undo Pick to step back to this one.");
+        return;
+      }
+      setDraftPicks(prev => prev.slice(0, -1));
+      return;
+    }
+    setDraftPicks(prev => {
+      const slot = slotOverride ?? getSlotForPick(prev.length + 1, draftSettings);
+      return [...prev, { slot, playerId, playerName: player.name }];
+    });
+    setSlotOverride(null);
+  }, [draftPicks, setDraftPicks, slotOverride, draftSettings, playersById, resolveStoredId]);
+
+  const saveDraftedTeam = useCallback((teamName: string, myPicks: string[]) => {
+    if (myPicks.length === 0) {
+      alert("You haven't drafted any players yet.");
+      return false;
+    }
+    if (!teamName) {
+      alert("Please enter a team name.");
+      return false;
+    }
+    if (teams.some(team => team.name.toLowerCase() === teamName.toLowerCase())) {
+      alert("A team with this name already exists.");
+      return false;
+    }
+    recordChange(`save team ${teamName}`);
+    setTeams(prevTeams => [...prevTeams, {
+      name: teamName,
+      players: myPicks,
+      color: TEAM_COLORS[prevTeams.length % TEAM_COLORS.length],
+    }]);
+    return true;
+  }, [teams, setTeams, recordChange]);
+
+  const handleSaveDraftTeam = useCallback((teamName: string) => {
+    const myPicks = draftPicks.filter(pick => pick.slot === draftSettings.mySlot).map(pick => resolveStoredId(pick.playerId));
+    return saveDraftedTeam(teamName, myPicks);
+  }, [draftPicks, draftSettings.mySlot, saveDraftedTeam, resolveStoredId]);
+
+  // Computer teams draft from the source rankings; personal rank overrides only shape the user's own view.
+  const handleStartMockDraft = useCallback(() => {
+    if (mockPicks && mockPicks.length > 0 && !window.confirm('Restart the mock draft?')) return;
+    setMockPicks(simulateMockDraft([], sourcePlayers, mockDraftSettings, leagueSettings));
+  }, [mockPicks, sourcePlayers, mockDraftSettings, leagueSettings]);
+
+  const handleEndMockDraft = useCallback(() => {
+    setMockPicks(null);
+  }, []);
+
+  const mockDraftedSlots = useMemo(() => new Map((mockPicks ?? []).map(pick => [pick.playerId, pick.slot])), [mockPicks]);
+
+  const handleMockDraftPick = useCallback((playerId: string) => {
+    const player = playersById.get(playerId);
+    if (!mockPicks || !player || mockDraftedSlots.has(playerId)) return;
+    if (isMockDraftComplete(mockPicks, sourcePlayers.length, mockDraftSettings, leagueSettings)) return;
+    if (getSlotForPick(mockPicks.length + 1, mockDraftSettings) !== mockDraftSettings.mySlot) return;
+    const picks = [...mockPicks, { slot: mockDraftSettings.mySlot, playerId, playerName: player.name }];
+    setMockPicks(simulateMockDraft(picks, sourcePlayers, mockDraftSettings, leagueSettings));
+  }, [mockPicks, mockDraftedSlots, playersById, sourcePlayers, mockDraftSettings, leagueSettings]);
+
+  const mockDraftSummary = useMemo(() => {
+    if (!mockPicks || !isMockDraftComplete(mockPicks, sourcePlayers.length, mockDraftSettings, leagueSettings)) return null;
+    const { values } = buildValueModel(sourcePlayers, mockDraftSettings.leagueSize, leagueSettings);
+    return summarizeMockDraft(mockPicks, sourcePlayers, mockDraftSettings, leagueSettings, values);
+  }, [mockPicks, sourcePlayers, mockDraftSettings, leagueSettings]);
+
+  const handleSaveMockTeam = useCallback((teamName: string) => {
+    const myPicks = (mockPicks ?? []).filter(pick => pick.slot === mockDraftSettings.mySlot).map(pick => pick.playerId);
+    return saveDraftedTeam(teamName, myPicks);
+  }, [mockPicks, mockDraftSettings.mySlot, saveDraftedTeam]);
+
+  // A running mock draft takes over the tables' draft clicks from the draft tracker.
+  const isMockDrafting = mockPicks !== null;
+  const tableDraftedSlots = isMockDrafting ? mockDraftedSlots : isDraftMode ? draftedSlots : undefined;
+  const tableOnDraftPlayer = isMockDrafting ? handleMockDraftPick : isDraftMode ? handleDraftPlayer : undefined;
+
+  // Each parse replaces the board, so it's recorded for undo, except the first one after rankings are loaded.
+  const applyRankingsParse = useCallback((text: string, result: ParseResult, label: string, mergeKey?: string) => {
+    if (lastParseRef.current) recordChange(label, { mergeKey });
+    lastParseRef.current = { text, result };
+    applyParseResult(result);
+  }, [recordChange, applyParseResult]);
+
+  // Re-parses while typing run in the background: the board stays up until the new result arrives,
+  // and only the latest request's result is applied.
+  const handleSubmitRankings = useCallback(async (text: string, parserId: string = rankingsParserId, isBackground = false) => {
+    const requestId = ++parseRequestIdRef.current;
+    const isCurrent = () => requestId === parseRequestIdRef.current;
+    // A burst of typing is undone as one re-parse.
+    const applyResult = (result: ParseResult) =>
+      applyRankingsParse(text, result, 're-parse rankings', isBackground ? 'rankings-text' : undefined);
+    window.clearTimeout(reparseTimeoutRef.current);
+    if (!isBackground) {
+      setIsLoading(true);
+      setParsedPlayers([]);
+      setParseLines([]);
+    }
     setError(null);
-    setPlayers([]);
     try {
-      const rankings = await parseRankingsFromText(text);
-      setPlayers(rankings);
+      // Choosing a format by hand skips the CSV/TSV importer too.
+      const table = parserId === AUTO_DETECT_PARSER_ID ? detectDelimitedTable(text) : null;
+      if (table?.headers) {
+        const savedMapping = columnMappings[getHeaderSignature(table.headers)];
+        const { mapping, isConfident } = savedMapping
+          ? { mapping: savedMapping, isConfident: true }
+          : guessColumnMapping(table.headers);
+        if (isConfident) {
+          applyResult(parseDelimitedRankings(table, mapping));
+        } else if (!isBackground) {
+          setPendingImport({ table, mapping });
+        }
+        return;
+      }
+
+      const result = await parseRankingsFromText(text, parserId);
+      if (!isCurrent()) return;
+      if (result.players.length === 0 && table) {
+        // A headerless table the space-delimited parser can't read: ask which column is which.
+        if (!isBackground) setPendingImport({ table, mapping: {} });
+        return;
+      }
+      applyResult(result);
     } catch (e: any) {
-      setError(e.message || 'An unknown error occurred.');
+      if (isCurrent()) setError(e.message || 'An unknown error occurred.');
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) setIsLoading(false);
     }
-  }, []);
+  }, [columnMappings, applyRankingsParse, rankingsParserId]);
+
+  const handleRankingsTextChange = useCallback((text: string) => {
+    setRawText(text);
+    window.clearTimeout(reparseTimeoutRef.current);
+    reparseTimeoutRef.current = window.setTimeout(() => handleSubmitRankings(text, rankingsParserId, true), REPARSE_DELAY_MS);
+  }, [setRawText, handleSubmitRankings, rankingsParserId]);
+
+  const handleParserChange = useCallback((parserId: string) => {
+    setRankingsParserId(parserId);
+    if (rawText.trim()) {
+      handleSubmitRankings(rawText, parserId);
+    }
+  }, [setRankingsParserId, rawText, handleSubmitRankings]);
+
+  const handleConfirmColumnMapping = useCallback((mapping: ColumnMapping) => {
+    if (!pendingImport) return;
+    const { table } = pendingImport;
+    if (table.headers) {
+      setColumnMappings(prev => ({ ...prev, [getHeaderSignature(table.headers!)]: mapping }));
+    }
+    const result = parseDelimitedRankings(table, mapping);
+    applyRankingsParse(rawText, result, 're-parse rankings');
+    setError(result.players.length === 0 ? 'No players could be read with that column mapping.' : null);
+    setPendingImport(null);
+  }, [pendingImport, setColumnMappings, applyRankingsParse, rawText]);
+
+  const handleApplyConsensus = useCallback((consensusPlayers: Player[]) => {
+    applyRankingsParse(rawText, { players: consensusPlayers, lines: [] }, 'apply consensus rankings');
+  }, [applyRankingsParse, rawText]);
+
+  const handleSelectLine = useCallback((lineNumber: number) => {
+    const textarea = rankingsTextareaRef.current;
+    if (!textarea) return;
+    const lines = rawText.split('\n');
+    const start = lines.slice(0, lineNumber - 1).reduce((offset, line) => offset + line.length + 1, 0);
+    const end = start + (lines[lineNumber - 1]?.length ?? 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (lineNumber - 3) * lineHeight);
+  }, [rawText]);
+
+  const handleFixLine = useCallback((lineNumber: number, newText: string) => {
+    const lines = rawText.split('\n');
+    lines[lineNumber - 1] = newText;
+    const updatedText = lines.join('\n');
+    setRawText(updatedText);
+    handleSubmitRankings(updatedText);
+  }, [rawText, setRawText, handleSubmitRankings]);
   
+  // Parse the saved rankings on load and whenever another league's rankings are switched in.
+  // Each league has its own favorites and teams, so its history starts over.
   useEffect(() => {
+    clearHistory();
+    setUndoToast(null);
+    lastParseRef.current = null;
     if (rawText.trim()) {
       handleSubmitRankings(rawText);
+    } else {
+      // Drop any re-parse still pending for the previous league's text.
+      window.clearTimeout(reparseTimeoutRef.current);
+      parseRequestIdRef.current++;
+      applyParseResult({ players: [], lines: [] });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeLeagueId]);
+
+  const handleSwitchLeague = useCallback((leagueId: string) => {
+    setActiveLeagueId(leagueId);
+    setPendingImport(null);
+    setSlotOverride(null);
+    setMockPicks(null);
+    setError(null);
+  }, [setActiveLeagueId]);
+
+  const handleCreateLeague = useCallback((name: string) => {
+    const league = createLeague(name);
+    setLeagues(prev => [...prev, league]);
+    handleSwitchLeague(league.id);
+  }, [setLeagues, handleSwitchLeague]);
+
+  const handleRenameLeague = useCallback((leagueId: string, name: string) => {
+    setLeagues(prev => prev.map(league => league.id === leagueId ? { ...league, name } : league));
+  }, [setLeagues]);
+
+  const handleDeleteLeague = useCallback((leagueId: string) => {
+    const remaining = leagues.filter(league => league.id !== leagueId);
+    if (remaining.length === 0) return;
+    setLeagues(remaining);
+    deleteLeagueStorage(leagueId);
+    if (leagueId === activeLeagueId) {
+      handleSwitchLeague(remaining[0].id);
+    }
+  }, [leagues, activeLeagueId, setLeagues, handleSwitchLeague]);
+
+  const handleCopyRankings = useCallback(async (fromLeagueId: string) => {
+    const fromLeague = leagues.find(league => league.id === fromLeagueId);
+    const text = await readLeagueValue(fromLeagueId, 'fantasyRankingsText', '');
+    if (!fromLeague || !text.trim()) {
+      alert("That league doesn't have any rankings yet.");
+      return;
+    }
+    if (rawText.trim() && !window.confirm(`Replace this league's rankings with the ones from "${fromLeague.name}"?`)) return;
+    const parserId = await readLeagueValue(fromLeagueId, 'fantasyRankingsParser', AUTO_DETECT_PARSER_ID);
+    setRawText(text);
+    setRankingsParserId(parserId);
+    setRankOverrides(await readLeagueValue<Record<string, number>>(fromLeagueId, 'fantasyRankOverrides', {}));
+    handleSubmitRankings(text, parserId);
+  }, [leagues, rawText, setRawText, setRankingsParserId, setRankOverrides, handleSubmitRankings]);
+
+  useEffect(() => {
+    const loadSharedView = async () => {
+      const { hash } = window.location;
+      if (!hash.startsWith(SHARE_HASH_PREFIX)) {
+        setSharedView(null);
+        return;
+      }
+      try {
+        setSharedView(await decodeSharedView(hash.slice(SHARE_HASH_PREFIX.length)));
+      } catch (e: any) {
+        setSharedView(null);
+        setError(e.message);
+      }
+    };
+    loadSharedView();
+    window.addEventListener('hashchange', loadSharedView);
+    return () => window.removeEventListener('hashchange', loadSharedView);
   }, []);
 
-  const activeTeamPlayerNames = useMemo(() => {
+  const handleCloseSharedView = useCallback(() => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSharedView(null);
+  }, []);
+
+  const workspace = useMemo<Workspace>(() => ({
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    leagueName: activeLeagueName,
+    rankingsText: rawText,
+    rankingsParserId,
+    favorites: favoriteIds,
+    teams,
+    activeTeams: activeTeamNames,
+    rankingSources,
+    draftSettings,
+    draftPicks,
+    tierSensitivity,
+    tierBreaks: manualTierBreakIds,
+    aliases: playerAliases,
+    snapshots,
+    trendBaselineId,
+    columnMappings,
+    leagueSettings,
+    rankOverrides,
+    playerTags,
+    playerNotes,
+    mockDraftSettings,
+    exposureThresholds,
+    scheduleText,
+    byeWeekText,
+    boardView,
+    overallPositions,
+    flexPositions,
+    flexIncludesQb,
+    showValues,
+  }), [activeLeagueName, rawText, rankingsParserId, favoriteIds, teams, activeTeamNames, rankingSources, draftSettings, draftPicks, tierSensitivity,
+    manualTierBreakIds, playerAliases, snapshots, trendBaselineId, columnMappings, leagueSettings, rankOverrides, playerTags, playerNotes,
+    mockDraftSettings, exposureThresholds, scheduleText, byeWeekText, boardView, overallPositions, flexPositions, flexIncludesQb, showValues]);
+
+  const handleImportWorkspace = useCallback((incoming: Workspace, mode: WorkspaceImportMode) => {
+    const next = mode === 'merge' ? mergeWorkspaces(workspace, incoming) : incoming;
+    setRawText(next.rankingsText);
+    setFavoriteIds(next.favorites);
+    setTeams(next.teams);
+    setActiveTeamNames(next.activeTeams);
+    setRankingSources(next.rankingSources);
+    setDraftSettings(next.draftSettings);
+    setDraftPicks(next.draftPicks);
+    setTierSensitivity(next.tierSensitivity);
+    setManualTierBreakIds(next.tierBreaks);
+    setPlayerAliases(next.aliases);
+    setSnapshots(next.snapshots);
+    setTrendBaselineId(next.trendBaselineId);
+    setColumnMappings(next.columnMappings);
+    setLeagueSettings(next.leagueSettings);
+    setRankOverrides(next.rankOverrides);
+    setPlayerTags(next.playerTags);
+    setPlayerNotes(next.playerNotes);
+    setRankingsParserId(next.rankingsParserId);
+    setMockDraftSettings(next.mockDraftSettings);
+    setExposureThresholds(next.exposureThresholds);
+    setScheduleText(next.scheduleText);
+    setByeWeekText(next.byeWeekText);
+    setBoardView(next.boardView);
+    setOverallPositions(next.overallPositions);
+    setFlexPositions(next.flexPositions);
+    setFlexIncludesQb(next.flexIncludesQb);
+    setShowValues(next.showValues);
+    // Undoing past an import would mix the imported data with what it replaced.
+    clearHistory();
+    setUndoToast(null);
+    if (next.rankingsText !== rawText || next.rankingsParserId !== rankingsParserId) {
+      lastParseRef.current = null;
+      if (next.rankingsText.trim()) {
+        handleSubmitRankings(next.rankingsText, next.rankingsParserId);
+      } else {
+        applyParseResult({ players: [], lines: [] });
+      }
+    }
+  }, [workspace, rawText, rankingsParserId, handleSubmitRankings, applyParseResult, clearHistory, setRawText, setFavoriteIds, setTeams, setActiveTeamNames,
+    setRankingSources, setDraftSettings, setDraftPicks, setTierSensitivity, setManualTierBreakIds, setPlayerAliases,
+    setSnapshots, setTrendBaselineId, setColumnMappings, setLeagueSettings, setRankOverrides, setPlayerTags, setPlayerNotes,
+    setRankingsParserId, setMockDraftSettings, setExposureThresholds, setScheduleText, setByeWeekText, setBoardView,
+    setOverallPositions, setFlexPositions, setFlexIncludesQb, setShowValues]);
+
+  const activeTeamPlayerIds = useMemo(() => {
     const playerSet = new Set<string>();
     const activeTeams = teams.filter(team => activeTeamNames.includes(team.name));
     for (const team of activeTeams) {
-      for (const playerName of team.players) {
-        playerSet.add(playerName);
+      for (const playerId of team.players) {
+        playerSet.add(resolveStoredId(playerId));
       }
     }
     return playerSet;
-  }, [teams, activeTeamNames]);
+  }, [teams, activeTeamNames, resolveStoredId]);
+
+  const unmatchedTeamPlayers = useMemo(() => {
+    const unmatched: Record<string, string[]> = {};
+    if (players.length === 0) return unmatched;
+    for (const team of teams) {
+      unmatched[team.name] = team.players
+        .map(stored => canonicalizePlayerId(stored, playerAliases))
+        .filter(id => !resolvePlayer(id, playersById));
+    }
+    return unmatched;
+  }, [players, teams, playerAliases, playersById]);
+
+  const unmatchedPlayerIds = useMemo(() => {
+    const ids = new Set(Object.values<string[]>(unmatchedTeamPlayers).flat());
+    for (const id of favoritesSet) {
+      if (players.length > 0 && !playersById.has(id)) ids.add(id);
+    }
+    return Array.from(ids);
+  }, [unmatchedTeamPlayers, favoritesSet, players, playersById]);
+
+  const playerTeamNames = useMemo(() => {
+    const namesByPlayer: Record<string, string[]> = {};
+    for (const team of teams) {
+      for (const storedId of team.players) {
+        const playerId = resolveStoredId(storedId);
+        if (!namesByPlayer[playerId]) {
+          namesByPlayer[playerId] = [];
+        }
+        namesByPlayer[playerId].push(team.name);
+      }
+    }
+    return namesByPlayer;
+  }, [teams, resolveStoredId]);
+
+  // Clicking a player in the exposure report shows just the teams that roster them.
+  const handleShowPlayerTeams = useCallback((teamNames: string[], playerName: string) => {
+    recordChange(`show teams with ${playerName}`);
+    setActiveTeamNames(teamNames);
+  }, [recordChange, setActiveTeamNames]);
+
+  const handleTogglePlayerOnTeam = useCallback((playerId: string, teamName: string) => {
+    const name = playersById.get(playerId)?.name ?? playerId;
+    recordChange(playerTeamNames[playerId]?.includes(teamName) ? `remove ${name} from ${teamName}` : `add ${name} to ${teamName}`);
+    setTeams(prevTeams => prevTeams.map(team => {
+      if (team.name !== teamName) return team;
+      const remaining = team.players.filter(stored => resolveStoredId(stored) !== playerId);
+      return { ...team, players: remaining.length === team.players.length ? [...team.players, playerId] : remaining };
+    }));
+  }, [setTeams, resolveStoredId, recordChange, playersById, playerTeamNames]);
+
+  const teamRosters = useMemo(() => {
+    const rosters: Record<string, Player[]> = {};
+    for (const team of teams) {
+      rosters[team.name] = team.players
+        .map(stored => playersById.get(resolveStoredId(stored)))
+        .filter((player): player is Player => player !== undefined);
+    }
+    return rosters;
+  }, [teams, playersById, resolveStoredId]);
+
+  const matchups = useMemo(() => parseMatchups(scheduleText), [scheduleText]);
+
+  const teamStacks = useMemo(() => {
+    const stacks: Record<string, QbStack[]> = {};
+    for (const team of teams) {
+      stacks[team.name] = findStacks(teamRosters[team.name] || [], matchups.opponents);
+    }
+    return stacks;
+  }, [teams, teamRosters, matchups]);
+
+  const teamByeCalendars = useMemo(() => {
+    const calendars: Record<string, ByeCalendar> = {};
+    for (const team of teams) {
+      calendars[team.name] = buildByeCalendar(teamRosters[team.name] || [], leagueSettings);
+    }
+    return calendars;
+  }, [teams, teamRosters, leagueSettings]);
+
+  // Only quarterbacks drive the stack highlight, so hovering other rows doesn't re-render the board.
+  const handleHoverPlayer = useCallback((playerId: string | null) => {
+    const isQb = playerId !== null && playersById.get(playerId)?.position.toUpperCase() === 'QB';
+    setHoveredQbId(isQb ? playerId : null);
+  }, [playersById]);
+
+  const stackHighlights = useMemo(() => {
+    const qb = hoveredQbId ? playersById.get(hoveredQbId) : undefined;
+    return qb ? getStackPartners(qb, players, matchups.opponents) : undefined;
+  }, [hoveredQbId, playersById, players, matchups]);
+
+  const nflTeamOptions = useMemo(() => Array.from(new Set(
+    players.map(player => normalizeNflTeam(player.team)).filter((team): team is string => team !== undefined)
+  )).sort(), [players]);
+
+  const exposureReport = useMemo(() => buildExposureReport(teams, teamRosters), [teams, teamRosters]);
+
+  const unmatchedTeamPlayerNames = useMemo(() => {
+    const names: Record<string, string[]> = {};
+    for (const [teamName, ids] of Object.entries<string[]>(unmatchedTeamPlayers)) {
+      names[teamName] = ids.map(formatPlayerId);
+    }
+    return names;
+  }, [unmatchedTeamPlayers]);
 
   const filteredPlayers = useMemo(() => {
+    let visiblePlayers = players;
+    if (tableDraftedSlots && hideDrafted) {
+      visiblePlayers = visiblePlayers.filter(player => !tableDraftedSlots.has(player.id));
+    }
+    if (nflTeamFilter) {
+      visiblePlayers = visiblePlayers.filter(player => normalizeNflTeam(player.team) === nflTeamFilter);
+    }
+    if (tagFilter.length > 0) {
+      visiblePlayers = visiblePlayers.filter(player =>
+        resolvedPlayerNotes[player.id]?.tags.some(tagName => tagFilter.includes(tagName))
+      );
+    }
     if (!hideUnselectedPlayers) {
-      return players;
+      return visiblePlayers;
     }
-    return players.filter(player =>
-      favoritesSet.has(player.name) || activeTeamPlayerNames.has(player.name)
+    return visiblePlayers.filter(player =>
+      favoritesSet.has(player.id) || activeTeamPlayerIds.has(player.id)
     );
-  }, [players, hideUnselectedPlayers, favoritesSet, activeTeamPlayerNames]);
+  }, [players, hideUnselectedPlayers, favoritesSet, activeTeamPlayerIds, tableDraftedSlots, hideDrafted, nflTeamFilter, tagFilter, resolvedPlayerNotes]);
 
 
+  // Positions whose players didn't change keep the same list, so their memoized tables skip re-rendering.
+  const playersByPositionRef = useRef<Record<string, Player[]>>({});
   const playersByPosition = useMemo(() => {
     const grouped: Record<string, Player[]> = {};
     POSITIONS_TO_DISPLAY.forEach(pos => {
@@ -337,27 +1188,119 @@ export default function App() {
         grouped[upperPos].push(player);
       }
     }
+    const previous = playersByPositionRef.current;
+    for (const pos of POSITIONS_TO_DISPLAY) {
+      const list = grouped[pos];
+      if (previous[pos]?.length === list.length && list.every((player, index) => player === previous[pos][index])) {
+        grouped[pos] = previous[pos];
+      }
+    }
+    playersByPositionRef.current = grouped;
     return grouped;
   }, [filteredPlayers]);
 
+  // Each position table gets only its own favorites, kept as the same set until they change,
+  // so a star click re-renders just the table it was made in.
+  const favoritesByPositionRef = useRef<Record<string, Set<string>>>({});
+  const favoritesByPosition = useMemo(() => {
+    const previous = favoritesByPositionRef.current;
+    const next: Record<string, Set<string>> = {};
+    for (const pos of POSITIONS_TO_DISPLAY) {
+      const ids = playersByPosition[pos].filter(player => favoritesSet.has(player.id)).map(player => player.id);
+      const previousIds = previous[pos];
+      next[pos] = previousIds?.size === ids.length && ids.every(id => previousIds.has(id)) ? previousIds : new Set(ids);
+    }
+    favoritesByPositionRef.current = next;
+    return next;
+  }, [playersByPosition, favoritesSet]);
+
+  const manualTierBreaks = useMemo(() => new Set(manualTierBreakIds.map(resolveStoredId)), [manualTierBreakIds, resolveStoredId]);
+
+  const handleToggleTierBreak = useCallback((playerId: string) => {
+    setManualTierBreakIds(prev => {
+      const remaining = prev.filter(stored => resolveStoredId(stored) !== playerId);
+      return remaining.length === prev.length ? [...prev, playerId] : remaining;
+    });
+  }, [setManualTierBreakIds, resolveStoredId]);
+
+  // Tiers come from the full position lists so hiding players doesn't reshuffle them.
+  const tiersByPosition = useMemo(() => {
+    const tiers: Record<string, Map<string, number>> = {};
+    const sortedByRank = [...players].sort((a, b) => a.rank - b.rank);
+    for (const pos of POSITIONS_TO_DISPLAY) {
+      const positionPlayers = sortedByRank.filter(player => player.position.toUpperCase() === pos);
+      tiers[pos] = computeTiers(positionPlayers, tierSensitivity, manualTierBreaks);
+    }
+    return tiers;
+  }, [players, tierSensitivity, manualTierBreaks]);
+
+  const toggleOverallPosition = useCallback((position: string) => {
+    setOverallPositions(prev => prev.includes(position) ? prev.filter(p => p !== position) : [...prev, position]);
+  }, [setOverallPositions]);
+
+  const toggleFlexPosition = useCallback((position: string) => {
+    setFlexPositions(prev => prev.includes(position) ? prev.filter(p => p !== position) : [...prev, position]);
+  }, [setFlexPositions]);
+
+  const valueModel = useMemo(
+    () => buildValueModel(players, draftSettings.leagueSize, leagueSettings),
+    [players, draftSettings.leagueSize, leagueSettings]
+  );
+
+  const handleLeagueSizeChange = useCallback((leagueSize: number) => {
+    setDraftSettings(prev => ({ ...prev, leagueSize, mySlot: Math.min(prev.mySlot, leagueSize) }));
+  }, [setDraftSettings]);
+
+  const rankTrends = useMemo(() => {
+    const baseline = snapshots.find(snapshot => snapshot.id === trendBaselineId);
+    return baseline ? getRankTrends(assignPlayerIds(baseline.players, playerAliases), sourcePlayers) : undefined;
+  }, [snapshots, trendBaselineId, playerAliases, sourcePlayers]);
+
   const playerHighlightColors = useMemo(() => {
     const colorMap: Record<string, string[]> = {};
     const activeTeams = teams.filter(team => activeTeamNames.includes(team.name));
     
     for (const team of activeTeams) {
-      for (const playerName of team.players) {
-        if (!colorMap[playerName]) {
-          colorMap[playerName] = [];
+      for (const storedId of team.players) {
+        const playerId = resolveStoredId(storedId);
+        if (!colorMap[playerId]) {
+          colorMap[playerId] = [];
         }
-        colorMap[playerName].push(team.color);
+        colorMap[playerId].push(team.color);
       }
     }
     return colorMap;
-  }, [teams, activeTeamNames]);
+  }, [teams, activeTeamNames, resolveStoredId]);
+
+  // Tier rows only make sense within one position, so the combined boards leave them out.
+  const combinedTableProps = {
+    favorites: favoritesSet,
+    onToggleFavorite: handleToggleFavorite,
+    playerHighlightColors,
+    draftedSlots: tableDraftedSlots,
+    onDraftPlayer: tableOnDraftPlayer,
+    rankTrends,
+    teams,
+    playerTeamNames,
+    onTogglePlayerTeam: handleTogglePlayerOnTeam,
+    values: showValues ? valueModel.values : undefined,
+    onMovePlayer: handleMovePlayer,
+    overriddenIds: overriddenPlayerIds,
+    onResetRank: handleResetRank,
+    playerNotes: resolvedPlayerNotes,
+    playerTags,
+    onUpdatePlayerNote: handleUpdatePlayerNote,
+    stackHighlights,
+    onHoverPlayer: handleHoverPlayer,
+  };
+
+  if (sharedView) {
+    return <SharedBoard view={sharedView} onClose={handleCloseSharedView} />;
+  }
 
   return (
-    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans p-4 sm:p-6 lg:p-8">
-      <div className="max-w-screen-2xl mx-auto flex flex-col items-center space-y-8">
+    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans p-4 sm:p-6 lg:p-8 print:min-h-0 print:bg-white print:p-0">
+      <div className="max-w-screen-2xl mx-auto flex flex-col items-center space-y-8 print:hidden">
         <header className="text-center">
           <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
             Fantasy Rank Visualizer
@@ -365,6 +1308,35 @@ export default function App() {
           <p className="mt-2 text-lg text-gray-400">
             Paste rankings, favorite players, and build color-coded teams.
           </p>
+          <div className="mt-4">
+            <LeagueSwitcher
+              leagues={leagues}
+              activeLeagueId={activeLeagueId}
+              onSwitch={handleSwitchLeague}
+              onCreate={handleCreateLeague}
+              onRename={handleRenameLeague}
+              onDelete={handleDeleteLeague}
+              onCopyRankings={handleCopyRankings}
+            />
+          </div>
+          <div className="mt-3 flex justify-center gap-2 text-sm">
+            <button
+              onClick={handleUndo}
+              disabled={!history.undoLabel}
+              title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+              className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!history.redoLabel}
+              title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              className="bg-gray-700 hover:bg-gray-600 text-gray-200 py-1 px-3 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              ↷ Redo
+            </button>
+          </div>
         </header>
 
         <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -376,44 +1348,321 @@ export default function App() {
                   onToggleHide={handleToggleHide}
                   hasPlayers={players.length > 0}
                   text={rawText}
-                  onTextChange={setRawText}
+                  onTextChange={handleRankingsTextChange}
+                  isDraftMode={isDraftMode}
+                  onToggleDraftMode={handleToggleDraftMode}
+                  textareaRef={rankingsTextareaRef}
+                  parserId={rankingsParserId}
+                  onParserChange={handleParserChange}
+                  detectedParserId={detectedParserId}
                 />
             </div>
             <TeamManager 
                 teams={teams}
-                favoriteNames={favoriteNames}
+                favoriteIds={resolvedFavoriteIds}
                 activeTeamNames={activeTeamNames}
+                unmatchedPlayers={unmatchedTeamPlayerNames}
+                teamRosters={teamRosters}
                 setTeams={setTeams}
-                setFavoriteNames={setFavoriteNames}
+                setFavoriteIds={setFavoriteIds}
                 setActiveTeamNames={setActiveTeamNames}
+                onTogglePlayerOnTeam={handleTogglePlayerOnTeam}
+                onRecordChange={recordChange}
             />
         </div>
         
+        {!isLoading && <ParseReport lines={parseLines} onSelectLine={handleSelectLine} onFixLine={handleFixLine} />}
+
+        {isDraftMode && (
+          <DraftPanel
+            settings={draftSettings}
+            setSettings={setDraftSettings}
+            picks={draftPicks}
+            setPicks={setDraftPicks}
+            slotOverride={slotOverride}
+            onSlotOverrideChange={setSlotOverride}
+            hideDrafted={hideDrafted}
+            onToggleHideDrafted={() => setHideDrafted(prev => !prev)}
+            onSaveMyPicks={handleSaveDraftTeam}
+          />
+        )}
+
+        {players.length > 0 && (
+          <MockDraftPanel
+            settings={mockDraftSettings}
+            setSettings={setMockDraftSettings}
+            leagueSettings={leagueSettings}
+            picks={mockPicks}
+            onStart={handleStartMockDraft}
+            onEnd={handleEndMockDraft}
+            summary={mockDraftSummary}
+            hideDrafted={hideDrafted}
+            onToggleHideDrafted={() => setHideDrafted(prev => !prev)}
+            onSaveMyPicks={handleSaveMockTeam}
+          />
+        )}
+
+        <ConsensusPanel
+          sources={rankingSources}
+          setSources={setRankingSources}
+          currentText={rawText}
+          aliases={playerAliases}
+          onApply={handleApplyConsensus}
+        />
+
+        <RosterPanel
+          settings={leagueSettings}
+          setSettings={setLeagueSettings}
+          teams={teams}
+          teamRosters={teamRosters}
+          unmatchedPlayers={unmatchedTeamPlayerNames}
+        />
+
+        {players.length > 0 && (
+          <ValuePanel
+            players={players}
+            valueModel={valueModel}
+            leagueSize={draftSettings.leagueSize}
+            onLeagueSizeChange={handleLeagueSizeChange}
+            showValues={showValues}
+            onToggleShowValues={() => setShowValues(prev => !prev)}
+            draftedSlots={tableDraftedSlots}
+            onDraftPlayer={tableOnDraftPlayer}
+          />
+        )}
+
+        <TradePanel
+          teams={teams}
+          teamRosters={teamRosters}
+          leagueSettings={leagueSettings}
+          values={valueModel.values}
+        />
+
+        <ExposurePanel
+          report={exposureReport}
+          thresholds={exposureThresholds}
+          setThresholds={setExposureThresholds}
+          onActivateTeams={handleShowPlayerTeams}
+        />
+
+        <StackPanel
+          teams={teams}
+          teamStacks={teamStacks}
+          scheduleText={scheduleText}
+          onScheduleTextChange={setScheduleText}
+          matchupCount={Object.keys(matchups.opponents).length / 2}
+          skippedScheduleLines={matchups.skippedLines}
+        />
+
+        <ByeWeekPanel
+          teams={teams}
+          teamCalendars={teamByeCalendars}
+          byeWeekText={byeWeekText}
+          onByeWeekTextChange={setByeWeekText}
+          teamCount={Object.keys(byeWeekTable.byeWeeks).length}
+          skippedByeWeekLines={byeWeekTable.skippedLines}
+        />
+
+        <SnapshotPanel
+          snapshots={snapshots}
+          setSnapshots={setSnapshots}
+          currentPlayers={sourcePlayers}
+          aliases={playerAliases}
+          trendBaselineId={trendBaselineId}
+          onTrendBaselineChange={setTrendBaselineId}
+        />
+
+        <AliasManager
+          aliases={playerAliases}
+          setAliases={setPlayerAliases}
+          players={players}
+          unmatchedIds={unmatchedPlayerIds}
+        />
+
+        <TagManager
+          tags={playerTags}
+          setTags={setPlayerTags}
+          onDeleteTag={handleDeleteTag}
+          tagCounts={tagCounts}
+        />
+
+        <WorkspacePanel
+          workspace={workspace}
+          onImport={handleImportWorkspace}
+          players={players}
+          favoriteIds={resolvedFavoriteIds}
+          teams={teams}
+          activeTeamNames={activeTeamNames}
+          teamRosters={teamRosters}
+        />
+
+        <ExportPanel
+          leagueName={activeLeagueName}
+          players={players}
+          playersByPosition={playersByPosition}
+          tiersByPosition={tiersByPosition}
+          favorites={favoritesSet}
+          playerHighlightColors={playerHighlightColors}
+          teams={teams}
+          teamRosters={teamRosters}
+          leagueSettings={leagueSettings}
+        />
+
         {error && <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-md w-full max-w-6xl text-center">{error}</div>}
 
+        {pendingImport && (
+          <ColumnMappingDialog
+            table={pendingImport.table}
+            initialMapping={pendingImport.mapping}
+            onConfirm={handleConfirmColumnMapping}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
         {isLoading ? (
           <LoaderIcon />
         ) : players.length > 0 ? (
-          <div className="w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {POSITIONS_TO_DISPLAY.map(pos => {
-              const positionPlayers = playersByPosition[pos];
-              if (!positionPlayers || positionPlayers.length === 0) {
-                return null;
-              }
-              return (
-                <div key={pos} className="w-full flex flex-col space-y-4">
-                  <h2 className="text-2xl sm:text-3xl font-bold text-cyan-300 text-center">
-                    {POSITION_FULL_NAMES[pos]}
-                  </h2>
-                  <PlayerTable 
-                    players={positionPlayers} 
-                    favorites={favoritesSet} 
-                    onToggleFavorite={handleToggleFavorite}
-                    playerHighlightColors={playerHighlightColors}
+          <div className="w-full flex flex-col items-center space-y-4">
+            <div className="w-full max-w-6xl flex flex-wrap items-center justify-between gap-3 text-sm text-gray-300">
+              <div className="flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Board view">
+                {BOARD_VIEW_OPTIONS.map(({ view, label }) => (
+                  <button
+                    key={view}
+                    onClick={() => setBoardView(view)}
+                    aria-pressed={boardView === view}
+                    className={`px-3 py-1.5 font-semibold transition-colors ${boardView === view ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {boardView === 'POSITION' && (
+                <div className="flex items-center gap-3">
+                  <label htmlFor="tier-sensitivity">Tier sensitivity</label>
+                  <input
+                    id="tier-sensitivity"
+                    type="range"
+                    min={MIN_TIER_SENSITIVITY}
+                    max={MAX_TIER_SENSITIVITY}
+                    value={tierSensitivity}
+                    onChange={(e) => setTierSensitivity(parseInt(e.target.value, 10))}
+                    className="accent-cyan-500"
                   />
+                  <span className="w-16 text-gray-400">{tierSensitivity === MIN_TIER_SENSITIVITY ? 'Manual' : tierSensitivity}</span>
+                </div>
+              )}
+              {boardView === 'FLEX' && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={flexIncludesQb}
+                    onChange={() => setFlexIncludesQb(prev => !prev)}
+                    className="accent-cyan-500"
+                  />
+                  Superflex (include QBs)
+                </label>
+              )}
+              {nflTeamOptions.length > 0 && (
+                <select
+                  value={nflTeamFilter}
+                  onChange={(e) => setNflTeamFilter(e.target.value)}
+                  className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  aria-label="Filter by NFL team"
+                >
+                  <option value="">All NFL teams</option>
+                  {nflTeamOptions.map(team => <option key={team} value={team}>{team}</option>)}
+                </select>
+              )}
+              {playerTags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Filter by tag">
+                  <span className="mr-1">Tags</span>
+                  {playerTags.map(tag => {
+                    const isSelected = tagFilter.includes(tag.name);
+                    return (
+                      <button
+                        key={tag.name}
+                        onClick={() => toggleTagFilter(tag.name)}
+                        aria-pressed={isSelected}
+                        className="px-2 py-0.5 rounded-full border text-xs font-semibold text-gray-100 transition-colors"
+                        style={{ borderColor: tag.color, backgroundColor: isSelected ? tag.color : 'transparent' }}
+                      >
+                        {tag.name}
+                      </button>
+                    );
+                  })}
                 </div>
-              );
-            })}
+              )}
+              {overriddenPlayerIds.size > 0 && (
+                <button
+                  onClick={() => { if (window.confirm('Reset all of your rank changes back to the source rankings?')) setRankOverrides({}); }}
+                  className="px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 font-semibold transition-colors"
+                  title="Drag rows in any table to reorder your personal rankings"
+                >
+                  Reset my rankings ({overriddenPlayerIds.size})
+                </button>
+              )}
+            </div>
+            {boardView === 'ALL' && (
+              <CombinedBoard
+                title="Overall Board"
+                players={filteredPlayers}
+                positionOptions={POSITIONS_TO_DISPLAY}
+                selectedPositions={overallPositions}
+                onTogglePosition={toggleOverallPosition}
+                tableProps={combinedTableProps}
+              />
+            )}
+            {boardView === 'FLEX' && (
+              <CombinedBoard
+                title={flexIncludesQb ? 'Superflex' : 'FLEX'}
+                players={filteredPlayers}
+                positionOptions={flexIncludesQb ? SUPERFLEX_POSITIONS : FLEX_POSITIONS}
+                selectedPositions={flexPositions}
+                onTogglePosition={toggleFlexPosition}
+                tableProps={combinedTableProps}
+              />
+            )}
+            {boardView === 'POSITION' && (
+              <div className="w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {POSITIONS_TO_DISPLAY.map(pos => {
+                  const positionPlayers = playersByPosition[pos];
+                  if (!positionPlayers || positionPlayers.length === 0) {
+                    return null;
+                  }
+                  return (
+                    <div key={pos} className="w-full flex flex-col space-y-4">
+                      <h2 className="text-2xl sm:text-3xl font-bold text-cyan-300 text-center">
+                        {POSITION_FULL_NAMES[pos]}
+                      </h2>
+                      <PlayerTable 
+                        players={positionPlayers} 
+                        favorites={favoritesByPosition[pos]} 
+                        onToggleFavorite={handleToggleFavorite}
+                        playerHighlightColors={playerHighlightColors}
+                        draftedSlots={tableDraftedSlots}
+                        onDraftPlayer={tableOnDraftPlayer}
+                        tiers={tiersByPosition[pos]}
+                        manualTierBreaks={manualTierBreaks}
+                        onToggleTierBreak={handleToggleTierBreak}
+                        rankTrends={rankTrends}
+                        teams={teams}
+                        playerTeamNames={playerTeamNames}
+                        onTogglePlayerTeam={handleTogglePlayerOnTeam}
+                        values={showValues ? valueModel.values : undefined}
+                        onMovePlayer={handleMovePlayer}
+                        overriddenIds={overriddenPlayerIds}
+                        onResetRank={handleResetRank}
+                        playerNotes={resolvedPlayerNotes}
+                        playerTags={playerTags}
+                        onUpdatePlayerNote={handleUpdatePlayerNote}
+                        stackHighlights={stackHighlights}
+                        onHoverPlayer={handleHoverPlayer}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         ) : (
           !error && (
@@ -426,6 +1675,19 @@ export default function App() {
           )
         )}
       </div>
+      <CheatSheet
+        title={`${activeLeagueName} Cheat Sheet`}
+        playersByPosition={playersByPosition}
+        tiersByPosition={tiersByPosition}
+        favorites={favoritesSet}
+        playerHighlightColors={playerHighlightColors}
+        activeTeams={teams.filter(team => activeTeamNames.includes(team.name))}
+        playerNotes={resolvedPlayerNotes}
+        playerTags={playerTags}
+      />
+      {undoToast && (
+        <UndoToast key={undoToast.id} message={undoToast.message} onUndo={handleUndo} onDismiss={handleDismissToast} />
+      )}
     </div>
   );
 }
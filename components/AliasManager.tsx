@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { Player } from '../types';
+import { formatPlayerId, normalizePlayerName } from '../services/playerIdentityService';
+
+interface AliasManagerProps {
+  aliases: Record<string, string>;
+  setAliases: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+  players: Player[];
+  unmatchedIds: string[];
+}
+
+const getBaseId = (id: string) => id.split('|')[0];
+
+const AliasManager: React.FC<AliasManagerProps> = ({ aliases, setAliases, players, unmatchedIds }) => {
+  const [aliasName, setAliasName] = useState('');
+  const [targetName, setTargetName] = useState('');
+  const [unmatchedTargets, setUnmatchedTargets] = useState<Record<string, string>>({});
+
+  const playersByName = useMemo(() => {
+    const byName = new Map<string, Player>();
+    for (const player of players) {
+      byName.set(player.name.toLowerCase(), player);
+    }
+    return byName;
+  }, [players]);
+  const sortedPlayers = useMemo(() => [...players].sort((a, b) => a.name.localeCompare(b.name)), [players]);
+  const playersById = useMemo(() => new Map(players.map(player => [getBaseId(player.id), player])), [players]);
+
+  const addAlias = (alias: string, target: string) => {
+    if (!alias || !target || alias === target) {
+      alert("An alias must map a name to a different player.");
+      return false;
+    }
+    setAliases(prev => ({ ...prev, [alias]: target }));
+    return true;
+  };
+
+  const handleAddAlias = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = playersByName.get(targetName.trim().toLowerCase());
+    const targetId = target ? getBaseId(target.id) : normalizePlayerName(targetName);
+    if (addAlias(normalizePlayerName(aliasName), targetId)) {
+      setAliasName('');
+      setTargetName('');
+    }
+  };
+
+  const handleLinkUnmatched = (unmatchedId: string) => {
+    const targetId = unmatchedTargets[unmatchedId];
+    if (targetId && addAlias(getBaseId(unmatchedId), targetId)) {
+      setUnmatchedTargets(prev => {
+        const next = { ...prev };
+        delete next[unmatchedId];
+        return next;
+      });
+    }
+  };
+
+  const handleRemoveAlias = (alias: string) => {
+    setAliases(prev => {
+      const next = { ...prev };
+      delete next[alias];
+      return next;
+    });
+  };
+
+  const aliasEntries = Object.entries<string>(aliases).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Player Aliases</h3>
+        <p className="text-sm text-gray-400">
+          Names are matched ignoring punctuation, suffixes like "Jr." and common nicknames. Add an alias when a source spells a player differently.
+        </p>
+      </div>
+
+      {unmatchedIds.length > 0 && players.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <h4 className="text-sm font-semibold text-yellow-300">Not found in the current rankings</h4>
+          {unmatchedIds.map(id => (
+            <div key={id} className="flex flex-wrap items-center gap-2 bg-gray-700 p-2 rounded-md text-sm">
+              <span className="font-medium text-gray-100 flex-grow">{formatPlayerId(id)}</span>
+              <select
+                value={unmatchedTargets[id] ?? ''}
+                onChange={(e) => setUnmatchedTargets(prev => ({ ...prev, [id]: e.target.value }))}
+                className="bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                aria-label={`Player to link ${formatPlayerId(id)} to`}
+              >
+                <option value="">Same player as...</option>
+                {sortedPlayers.map(player => (
+                  <option key={player.id} value={getBaseId(player.id)}>{player.name} ({player.position})</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => handleLinkUnmatched(id)}
+                disabled={!unmatchedTargets[id]}
+                className="bg-cyan-600 text-white font-semibold py-1 px-3 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+              >
+                Link
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAddAlias} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={aliasName}
+          onChange={(e) => setAliasName(e.target.value)}
+          placeholder="Name as written (e.g. Hollywood Brown)"
+          className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="Alias name"
+        />
+        <input
+          type="text"
+          list="alias-target-players"
+          value={targetName}
+          onChange={(e) => setTargetName(e.target.value)}
+          placeholder="Same player as (e.g. Marquise Brown)"
+          className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="Canonical player name"
+        />
+        <datalist id="alias-target-players">
+          {sortedPlayers.map(player => <option key={player.id} value={player.name} />)}
+        </datalist>
+        <button
+          type="submit"
+          disabled={!aliasName.trim() || !targetName.trim()}
+          className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          Add Alias
+        </button>
+      </form>
+
+      {aliasEntries.length > 0 && (
+        <ul className="flex flex-col gap-1 text-sm">
+          {aliasEntries.map(([alias, target]) => (
+            <li key={alias} className="flex items-center justify-between gap-2 bg-gray-700 px-3 py-1 rounded-md">
+              <span className="text-gray-300">
+                {formatPlayerId(alias)} <span className="text-gray-500">→</span>{' '}
+                <span className="font-semibold text-gray-100">{playersById.get(target)?.name ?? formatPlayerId(target)}</span>
+              </span>
+              <button onClick={() => handleRemoveAlias(alias)} className="text-gray-400 hover:text-red-400 p-1 rounded-full" aria-label={`Remove alias ${alias}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AliasManager;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ByeCalendar, FantasyTeam } from '../types';
+
+interface ByeWeekPanelProps {
+  teams: FantasyTeam[];
+  teamCalendars: Record<string, ByeCalendar>;
+  byeWeekText: string;
+  onByeWeekTextChange: (text: string) => void;
+  teamCount: number;
+  skippedByeWeekLines: string[];
+}
+
+const ByeWeekPanel: React.FC<ByeWeekPanelProps> = ({ teams, teamCalendars, byeWeekText, onByeWeekTextChange, teamCount, skippedByeWeekLines }) => (
+  <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+    <div>
+      <h3 className="text-xl font-bold text-gray-200">Bye Weeks</h3>
+      <p className="text-sm text-gray-400">
+        Bye weeks come from the rankings when they list one, otherwise from the table below.
+        Each team's calendar flags weeks where several starters at a position, or everyone at a starting position, are out. Projected starters are in bold.
+      </p>
+    </div>
+
+    <div className="flex flex-col gap-1">
+      <textarea
+        value={byeWeekText}
+        onChange={(e) => onByeWeekTextChange(e.target.value)}
+        placeholder={'Bye weeks, one per line:\nBUF 7\nWeek 9: KC, LAR, MIA'}
+        rows={3}
+        className="w-full bg-gray-900 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-y"
+        aria-label="Bye weeks by NFL team"
+      />
+      <p className="text-xs text-gray-400">
+        {teamCount > 0 ? `${teamCount} NFL teams loaded.` : 'No bye table loaded.'}
+        {skippedByeWeekLines.length > 0 && (
+          <span className="text-yellow-300"> Couldn't read: {skippedByeWeekLines.join('; ')}</span>
+        )}
+      </p>
+    </div>
+
+    {teams.length === 0 ? (
+      <p className="text-gray-400 text-sm text-center">Save teams to see their bye calendars.</p>
+    ) : (
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+        {teams.map(team => {
+          const calendar = teamCalendars[team.name];
+          if (!calendar) return null;
+          return (
+            <li key={team.name} className="flex flex-col gap-2 bg-gray-700 p-3 rounded-md">
+              <h4 className="font-bold" style={{ color: team.color }}>{team.name}</h4>
+              {calendar.weeks.length === 0 ? (
+                <p className="text-xs text-gray-400">No bye weeks known for this roster.</p>
+              ) : (
+                <table className="w-full">
+                  <tbody>
+                    {calendar.weeks.map(group => {
+                      const isConflict = calendar.conflictWeeks.includes(group.week);
+                      return (
+                        <tr key={group.week} className={`border-t border-gray-600 ${isConflict ? 'bg-red-900/40' : ''}`}>
+                          <td className={`py-1 pr-2 whitespace-nowrap align-top font-semibold ${isConflict ? 'text-red-300' : 'text-gray-300'}`}>Wk {group.week}</td>
+                          <td className="py-1 text-gray-300">
+                            {group.players.map((player, index) => (
+                              <span key={player.id}>
+                                {index > 0 && ', '}
+                                <span className={group.starters.includes(player) ? 'font-semibold text-gray-100' : ''}>{player.name}</span>
+                                <span className="text-xs text-gray-400"> {player.position}</span>
+                              </span>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              {calendar.warnings.length > 0 && (
+                <ul className="flex flex-col gap-1 text-xs text-red-300">
+                  {calendar.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              )}
+              {calendar.missingByes.length > 0 && (
+                <p className="text-xs text-yellow-300">No bye week for {calendar.missingByes.map(player => player.name).join(', ')}.</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    )}
+  </div>
+);
+
+export default ByeWeekPanel;
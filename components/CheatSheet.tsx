@@ -0,0 +1,91 @@
+import React from 'react';
+import { FantasyTeam, Player, PlayerNote, PlayerTag } from '../types';
+import { CHEAT_SHEET_DEPTH, POSITIONS_TO_DISPLAY } from '../constants';
+
+interface CheatSheetProps {
+  title: string;
+  playersByPosition: Record<string, Player[]>;
+  tiersByPosition: Record<string, Map<string, number>>;
+  favorites: Set<string>;
+  playerHighlightColors: Record<string, string[]>;
+  activeTeams: FantasyTeam[];
+  playerNotes: Record<string, PlayerNote>;
+  playerTags: PlayerTag[];
+}
+
+// Browsers drop background colors when printing unless asked to keep them.
+const KEEP_PRINT_COLORS: React.CSSProperties = { printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' } as React.CSSProperties;
+const PRINT_PAGE_STYLE = '@page { size: landscape; margin: 8mm; }';
+
+// Only rendered when printing; the live page is hidden from print instead.
+const CheatSheet: React.FC<CheatSheetProps> = ({ title, playersByPosition, tiersByPosition, favorites, playerHighlightColors, activeTeams, playerNotes, playerTags }) => {
+  const tagsByName = new Map(playerTags.map(tag => [tag.name, tag]));
+
+  return (
+    <div className="hidden print:block bg-white text-black text-[9px] leading-tight">
+      <style>{PRINT_PAGE_STYLE}</style>
+      <div className="flex items-baseline justify-between border-b border-black pb-1 mb-1">
+        <h1 className="text-sm font-bold">{title}</h1>
+        <div className="flex flex-wrap items-center gap-3">
+          <span>★ favorite</span>
+          {activeTeams.map(team => (
+            <span key={team.name} className="flex items-center gap-1">
+              <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ ...KEEP_PRINT_COLORS, backgroundColor: team.color }} />
+              {team.name}
+            </span>
+          ))}
+          <span>{new Date().toLocaleDateString()}</span>
+        </div>
+      </div>
+      <div className="grid grid-cols-6 gap-2">
+        {POSITIONS_TO_DISPLAY.map(position => {
+          const positionPlayers = (playersByPosition[position] || []).slice(0, CHEAT_SHEET_DEPTH[position] ?? 30);
+          if (positionPlayers.length === 0) return null;
+          const tiers = tiersByPosition[position];
+          return (
+            <table key={position} className="w-full border-collapse self-start">
+              <thead>
+                <tr>
+                  <th colSpan={2} className="text-left text-[10px] font-bold border-b border-black">{position}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {positionPlayers.map((player, index) => {
+                  const tier = tiers?.get(player.id);
+                  const startsTier = tier !== undefined && index > 0 && tier !== tiers?.get(positionPlayers[index - 1].id);
+                  const isFavorite = favorites.has(player.id);
+                  const colors = playerHighlightColors[player.id] || [];
+                  const note = playerNotes[player.id];
+                  const noteTags = (note?.tags ?? []).map(name => tagsByName.get(name)).filter((tag): tag is PlayerTag => tag !== undefined);
+                  const rowStyle: React.CSSProperties = colors.length === 1
+                    ? { ...KEEP_PRINT_COLORS, backgroundColor: `${colors[0]}33` }
+                    : colors.length > 1
+                      ? { ...KEEP_PRINT_COLORS, backgroundImage: `linear-gradient(to right, ${colors.map(color => `${color}40`).join(', ')})` }
+                      : {};
+                  return (
+                    <tr key={player.id} className={`break-inside-avoid ${startsTier ? 'border-t-2 border-black' : 'border-t border-gray-300'}`} style={rowStyle}>
+                      <td className="pr-1 align-top whitespace-nowrap text-gray-600">
+                        {startsTier || index === 0 ? <span className="font-bold text-black">{tier !== undefined ? `T${tier} ` : ''}</span> : null}
+                        {player.positionalRank ?? player.rank}
+                      </td>
+                      <td className="align-top">
+                        <span className={isFavorite ? 'font-bold' : ''}>{isFavorite ? '★ ' : ''}{player.name}</span>
+                        <span className="text-gray-600"> {player.team}{player.bye !== undefined ? ` ${player.bye}` : ''}</span>
+                        {noteTags.map(tag => (
+                          <span key={tag.name} className="ml-1 font-semibold" style={{ ...KEEP_PRINT_COLORS, color: tag.color }}>#{tag.name}</span>
+                        ))}
+                        {note?.text.trim() && <span className="block italic text-gray-700 truncate">{note.text}</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CheatSheet;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ColumnMapping, PlayerField } from '../types';
+import { DelimitedTable, PLAYER_FIELDS, REQUIRED_FIELDS } from '../services/csvImportService';
+
+interface ColumnMappingDialogProps {
+  table: DelimitedTable;
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<PlayerField, string> = {
+  rank: 'Overall Rank',
+  name: 'Player Name',
+  team: 'NFL Team',
+  position: 'Position',
+  bye: 'Bye Week',
+  adp: 'ADP',
+  tier: 'Tier',
+};
+
+const PREVIEW_ROWS = 5;
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ table, initialMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const columnCount = Math.max(table.headers?.length ?? 0, ...table.rows.slice(0, PREVIEW_ROWS).map(row => row.length));
+  const columnLabels = Array.from({ length: columnCount }, (_, i) => table.headers?.[i] || `Column ${i + 1}`);
+  const isComplete = REQUIRED_FIELDS.every(field => mapping[field] !== undefined);
+
+  const handleChange = (field: PlayerField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = parseInt(value, 10);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true" aria-label="Map columns">
+      <div className="w-full max-w-4xl bg-gray-800 border border-gray-700 rounded-lg p-6 flex flex-col gap-4 max-h-full overflow-y-auto">
+        <div>
+          <h3 className="text-xl font-bold text-gray-200">Map Columns</h3>
+          <p className="text-sm text-gray-400">
+            We couldn't tell which column is which. Choose the column for each field; Player Name and Position are required.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {PLAYER_FIELDS.map(field => (
+            <label key={field} className="flex flex-col gap-1 text-sm text-gray-300">
+              {FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) && <span className="text-red-400"> *</span>}
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => handleChange(field, e.target.value)}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              >
+                <option value="">— None —</option>
+                {columnLabels.map((label, index) => <option key={index} value={index}>{label}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="w-full overflow-x-auto rounded-lg">
+          <table className="min-w-full divide-y divide-gray-700 text-xs">
+            <thead className="bg-gray-900">
+              <tr>
+                {columnLabels.map((label, index) => (
+                  <th key={index} className="px-2 py-2 text-left font-medium text-gray-300 whitespace-nowrap">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-gray-700 divide-y divide-gray-600">
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {columnLabels.map((_, index) => (
+                    <td key={index} className="px-2 py-1 text-gray-200 whitespace-nowrap">{row[index]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-2 self-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="bg-gray-600 text-white font-bold py-2 px-6 rounded-md hover:bg-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(mapping)}
+            disabled={!isComplete}
+            className="bg-cyan-600 text-white font-bold py-2 px-6 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
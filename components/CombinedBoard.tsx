@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { Player } from '../types';
+import PlayerTable, { PlayerTableProps } from './PlayerTable';
+
+interface CombinedBoardProps {
+  title: string;
+  players: Player[];
+  positionOptions: string[];
+  selectedPositions: string[];
+  onTogglePosition: (position: string) => void;
+  tableProps: Omit<PlayerTableProps, 'players' | 'showPositionBadge'>;
+}
+
+const CombinedBoard: React.FC<CombinedBoardProps> = ({ title, players, positionOptions, selectedPositions, onTogglePosition, tableProps }) => {
+  // No chips selected means every position in the view is shown.
+  const visiblePlayers = useMemo(() => players
+    .filter(player => {
+      const position = player.position.toUpperCase();
+      return positionOptions.includes(position) && (selectedPositions.length === 0 || selectedPositions.includes(position));
+    })
+    .sort((a, b) => a.rank - b.rank), [players, positionOptions, selectedPositions]);
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col space-y-4">
+      <h2 className="text-2xl sm:text-3xl font-bold text-cyan-300 text-center">{title}</h2>
+      <div className="flex flex-wrap justify-center gap-2">
+        {positionOptions.map(position => {
+          const isSelected = selectedPositions.includes(position);
+          return (
+            <button
+              key={position}
+              onClick={() => onTogglePosition(position)}
+              aria-pressed={isSelected}
+              className={`px-3 py-1 rounded-full text-sm font-semibold border transition-colors ${isSelected ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {position}
+            </button>
+          );
+        })}
+      </div>
+      {visiblePlayers.length === 0 ? (
+        <p className="text-center text-gray-400">No players match these positions.</p>
+      ) : (
+        <PlayerTable players={visiblePlayers} showPositionBadge {...tableProps} />
+      )}
+    </div>
+  );
+};
+
+export default CombinedBoard;
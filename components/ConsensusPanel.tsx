@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Player, RankingSource, ConsensusPlayer } from '../types';
+import { parseRankingsWithAutoDetect } from '../services/csvImportService';
+import { buildConsensusRankings } from '../services/consensusService';
+import { assignPlayerIds } from '../services/playerIdentityService';
+
+interface ConsensusPanelProps {
+  sources: RankingSource[];
+  setSources: React.Dispatch<React.SetStateAction<RankingSource[]>>;
+  currentText: string;
+  aliases: Record<string, string>;
+  onApply: (players: Player[]) => void;
+}
+
+const formatNumber = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+const ConsensusPanel: React.FC<ConsensusPanelProps> = ({ sources, setSources, currentText, aliases, onApply }) => {
+  // Remembers which sources the result was built from, so edits made since (or during the build) hide it.
+  const [result, setResult] = useState<{ sources: RankingSource[]; players: ConsensusPlayer[] } | null>(null);
+  const consensus = result?.sources === sources ? result.players : [];
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAddSource = (text = '') => {
+    setSources(prev => [...prev, { id: `${Date.now()}`, name: `Source ${prev.length + 1}`, text }]);
+  };
+
+  const handleUpdateSource = (id: string, changes: Partial<RankingSource>) => {
+    setSources(prev => prev.map(source => (source.id === id ? { ...source, ...changes } : source)));
+  };
+
+  const handleRemoveSource = (id: string) => {
+    setSources(prev => prev.filter(source => source.id !== id));
+  };
+
+  const handleBuildConsensus = async () => {
+    const names = sources.map(source => source.name.trim().toLowerCase());
+    if (names.some(name => !name)) {
+      setError('Every source needs a name.');
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      setError('Source names must be unique.');
+      return;
+    }
+
+    setIsBuilding(true);
+    setError(null);
+    try {
+      const parsed = await Promise.all(
+        sources
+          .filter(source => source.text.trim())
+          .map(async source => ({ name: source.name.trim(), players: assignPlayerIds((await parseRankingsWithAutoDetect(source.text)).players, aliases) }))
+      );
+      const withPlayers = parsed.filter(source => source.players.length > 0);
+      if (withPlayers.length < 2) {
+        setError('At least two sources with parsable rankings are needed for a consensus.');
+        setResult(null);
+        return;
+      }
+      setResult({ sources, players: buildConsensusRankings(withPlayers) });
+    } catch (e: any) {
+      setError(e.message || 'An unknown error occurred.');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const sourceNames = sources.map(source => source.name.trim()).filter(Boolean);
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xl font-bold text-gray-200">Consensus Rankings</h3>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => handleAddSource(currentText)}
+            disabled={!currentText.trim()}
+            className="bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-gray-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Add Current Rankings
+          </button>
+          <button
+            type="button"
+            onClick={() => handleAddSource()}
+            className="bg-gray-600 text-white text-sm font-semibold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors"
+          >
+            Add Source
+          </button>
+        </div>
+      </div>
+
+      {sources.length === 0 && (
+        <p className="text-gray-400 text-sm text-center">No sources yet. Add two or more named rankings to compare them.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        {sources.map(source => (
+          <div key={source.id} className="flex flex-col gap-2 bg-gray-700 p-2 rounded-md">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={source.name}
+                onChange={(e) => handleUpdateSource(source.id, { name: e.target.value })}
+                className="flex-grow bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                aria-label="Source name"
+              />
+              <button onClick={() => handleRemoveSource(source.id)} className="text-gray-400 hover:text-red-400 p-1 rounded-full" aria-label={`Remove source ${source.name}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </div>
+            <textarea
+              value={source.text}
+              onChange={(e) => handleUpdateSource(source.id, { text: e.target.value })}
+              placeholder="Paste this source's rankings..."
+              className="bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-3 py-2 h-28 focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-y font-mono text-xs"
+              aria-label={`Rankings for ${source.name}`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 self-end">
+        <button
+          type="button"
+          onClick={() => onApply(consensus)}
+          disabled={consensus.length === 0}
+          className="bg-gray-600 text-white font-bold py-2 px-6 rounded-md hover:bg-gray-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          Visualize Consensus
+        </button>
+        <button
+          type="button"
+          onClick={handleBuildConsensus}
+          disabled={isBuilding || sources.length < 2}
+          className="bg-cyan-600 text-white font-bold py-2 px-6 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isBuilding ? 'Building...' : 'Build Consensus'}
+        </button>
+      </div>
+
+      {error && <div className="bg-red-900/50 border border-red-700 text-red-200 px-4 py-3 rounded-md text-center">{error}</div>}
+
+      {consensus.length > 0 && (
+        <div className="w-full overflow-x-auto max-h-[32rem] overflow-y-auto rounded-lg shadow-xl">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-gray-800 sticky top-0">
+              <tr>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Rank</th>
+                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Player</th>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Pos</th>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Avg</th>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Median</th>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Best</th>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Worst</th>
+                <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider">Std Dev</th>
+                {sourceNames.map(name => (
+                  <th key={name} scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-400 uppercase tracking-wider">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-gray-700 divide-y divide-gray-600">
+              {consensus.map(player => (
+                <tr key={player.id} className="hover:bg-gray-600/50">
+                  <td className="px-2 py-2 text-center text-sm font-medium text-gray-200">{player.rank}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm font-semibold text-gray-100">{player.name}</td>
+                  <td className="px-2 py-2 whitespace-nowrap text-center text-sm text-gray-300">{player.position}{player.positionalRank}</td>
+                  <td className="px-2 py-2 text-center text-sm text-gray-200">{formatNumber(player.averageRank)}</td>
+                  <td className="px-2 py-2 text-center text-sm text-gray-300">{formatNumber(player.medianRank)}</td>
+                  <td className="px-2 py-2 text-center text-sm text-green-300">{player.bestRank}</td>
+                  <td className="px-2 py-2 text-center text-sm text-red-300">{player.worstRank}</td>
+                  <td className="px-2 py-2 text-center text-sm text-gray-300">{player.stdDev.toFixed(1)}</td>
+                  {sourceNames.map(name => (
+                    <td key={name} className="px-2 py-2 text-center text-sm text-gray-400">{player.ranksBySource[name] ?? '—'}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsensusPanel;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { DraftPick, DraftSettings } from '../types';
+import { buildDraftBoard, formatPickLabel } from '../services/draftService';
+
+interface DraftBoardProps {
+  picks: DraftPick[];
+  settings: DraftSettings;
+  minRounds?: number;
+}
+
+const DraftBoard: React.FC<DraftBoardProps> = ({ picks, settings, minRounds }) => {
+  const board = buildDraftBoard(picks, settings, minRounds);
+  const slots = Array.from({ length: settings.leagueSize }, (_, i) => i + 1);
+
+  return (
+    <div className="w-full overflow-x-auto rounded-lg">
+      <table className="min-w-full border-separate border-spacing-1 text-xs">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-gray-400 font-medium">Rd</th>
+            {slots.map(slot => (
+              <th
+                key={slot}
+                className={`px-2 py-1 font-medium ${slot === settings.mySlot ? 'text-cyan-300' : 'text-gray-400'}`}
+              >
+                {slot === settings.mySlot ? `Slot ${slot} (Me)` : `Slot ${slot}`}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {board.map((round, roundIndex) => (
+            <tr key={roundIndex}>
+              <td className="px-2 py-1 text-center text-gray-400">{roundIndex + 1}</td>
+              {round.map((cell, slotIndex) => (
+                <td
+                  key={slotIndex}
+                  className={`px-2 py-1 rounded min-w-[6rem] whitespace-nowrap ${
+                    cell ? (cell.pick.slot === settings.mySlot ? 'bg-cyan-900/60 text-cyan-100' : 'bg-gray-700 text-gray-200') : 'bg-gray-900/40'
+                  }`}
+                >
+                  {cell && (
+                    <>
+                      <span className="text-gray-400 mr-1">{formatPickLabel(cell.pickNumber, settings.leagueSize)}</span>
+                      {cell.pick.playerName}
+                      {cell.pick.slot !== slotIndex + 1 && <span className="ml-1 text-gray-400">via Slot {cell.pick.slot}</span>}
+                    </>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DraftBoard;
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { DraftSettings, DraftPick, DraftOrder } from '../types';
+import { formatPickLabel, getPicksUntilSlot, getSlotForPick } from '../services/draftService';
+import DraftBoard from './DraftBoard';
+
+interface DraftPanelProps {
+  settings: DraftSettings;
+  setSettings: React.Dispatch<React.SetStateAction<DraftSettings>>;
+  picks: DraftPick[];
+  setPicks: React.Dispatch<React.SetStateAction<DraftPick[]>>;
+  slotOverride: number | null;
+  onSlotOverrideChange: (slot: number | null) => void;
+  hideDrafted: boolean;
+  onToggleHideDrafted: () => void;
+  onSaveMyPicks: (teamName: string) => boolean;
+}
+
+const DraftPanel: React.FC<DraftPanelProps> = ({
+  settings,
+  setSettings,
+  picks,
+  setPicks,
+  slotOverride,
+  onSlotOverrideChange,
+  hideDrafted,
+  onToggleHideDrafted,
+  onSaveMyPicks,
+}) => {
+  const [teamName, setTeamName] = useState('');
+  const nextPickNumber = picks.length + 1;
+  const scheduledSlot = getSlotForPick(nextPickNumber, settings);
+  // A traded pick is made by the slot it was traded to.
+  const slotOnClock = slotOverride ?? scheduledSlot;
+  const picksUntilMine = getPicksUntilSlot(nextPickNumber, settings.mySlot, settings, slotOnClock);
+  const myPickCount = picks.filter(pick => pick.slot === settings.mySlot).length;
+  const slots = Array.from({ length: settings.leagueSize }, (_, i) => i + 1);
+
+  const handleLeagueSizeChange = (value: string) => {
+    const leagueSize = Math.min(Math.max(parseInt(value, 10) || 2, 2), 32);
+    setSettings(prev => ({ ...prev, leagueSize, mySlot: Math.min(prev.mySlot, leagueSize) }));
+  };
+
+  const handleReset = () => {
+    if (picks.length > 0 && !confirm('Clear all draft picks?')) return;
+    setPicks([]);
+  };
+
+  const handleSaveTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSaveMyPicks(teamName.trim())) {
+      setTeamName('');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xl font-bold text-gray-200">Draft Tracker</h3>
+        <p className="text-sm text-gray-300">
+          Pick <span className="font-semibold text-white">{formatPickLabel(nextPickNumber, settings.leagueSize)}</span> (#{nextPickNumber}) · Slot {slotOnClock} on the clock ·{' '}
+          <span className={picksUntilMine === 0 ? 'font-bold text-green-400' : 'font-semibold text-cyan-300'}>
+            {picksUntilMine === 0 ? "You're on the clock!" : `You pick in ${picksUntilMine} ${picksUntilMine === 1 ? 'pick' : 'picks'}`}
+          </span>
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-300">
+          League Size
+          <input
+            type="number"
+            min={2}
+            max={32}
+            value={settings.leagueSize}
+            onChange={(e) => handleLeagueSizeChange(e.target.value)}
+            className="w-20 bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Order
+          <select
+            value={settings.order}
+            onChange={(e) => setSettings(prev => ({ ...prev, order: e.target.value as DraftOrder }))}
+            className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            <option value="snake">Snake</option>
+            <option value="linear">Linear</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          My Slot
+          <select
+            value={settings.mySlot}
+            onChange={(e) => setSettings(prev => ({ ...prev, mySlot: parseInt(e.target.value, 10) }))}
+            className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {slots.map(slot => <option key={slot} value={slot}>{slot}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Next Pick By
+          <select
+            value={slotOverride ?? ''}
+            onChange={(e) => onSlotOverrideChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            <option value="">On the clock (Slot {scheduledSlot})</option>
+            {slots.map(slot => <option key={slot} value={slot}>Slot {slot}</option>)}
+          </select>
+        </label>
+        <div className="flex gap-2 ml-auto">
+          <button
+            type="button"
+            onClick={onToggleHideDrafted}
+            className="bg-gray-600 text-white font-semibold py-1 px-4 rounded-md hover:bg-gray-500 transition-colors"
+          >
+            {hideDrafted ? 'Show Drafted' : 'Hide Drafted'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setPicks(prev => prev.slice(0, -1))}
+            disabled={picks.length === 0}
+            className="bg-gray-600 text-white font-semibold py-1 px-4 rounded-md hover:bg-gray-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Undo Pick
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={picks.length === 0}
+            className="bg-red-700 text-white font-semibold py-1 px-4 rounded-md hover:bg-red-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">Click a player's name in any position table to draft them.</p>
+
+      <DraftBoard picks={picks} settings={settings} />
+
+      <form onSubmit={handleSaveTeam} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={teamName}
+          onChange={(e) => setTeamName(e.target.value)}
+          placeholder="Team name for my picks"
+          className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 transition disabled:bg-gray-800 disabled:cursor-not-allowed"
+          disabled={myPickCount === 0}
+          aria-label="Team name for my draft picks"
+        />
+        <button
+          type="submit"
+          className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+          disabled={!teamName.trim() || myPickCount === 0}
+        >
+          Save My Picks ({myPickCount}) as Team
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default DraftPanel;
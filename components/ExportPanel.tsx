@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { FantasyTeam, LeagueSettings, Player } from '../types';
+import { POSITIONS_TO_DISPLAY } from '../constants';
+import { buildBoardImageColumns, buildBoardSvg, buildTeamImageColumns, downloadBlob, playersToCsv, svgToPngBlob } from '../services/exportService';
+
+interface ExportPanelProps {
+  leagueName: string;
+  players: Player[];
+  playersByPosition: Record<string, Player[]>;
+  tiersByPosition: Record<string, Map<string, number>>;
+  favorites: Set<string>;
+  playerHighlightColors: Record<string, string[]>;
+  teams: FantasyTeam[];
+  teamRosters: Record<string, Player[]>;
+  leagueSettings: LeagueSettings;
+}
+
+type ImageFormat = 'png' | 'svg';
+
+const BOARD_EXPORT_TARGET = '';
+
+const toFileName = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+
+const ExportPanel: React.FC<ExportPanelProps> = ({
+  leagueName,
+  players,
+  playersByPosition,
+  tiersByPosition,
+  favorites,
+  playerHighlightColors,
+  teams,
+  teamRosters,
+  leagueSettings,
+}) => {
+  const [target, setTarget] = useState(BOARD_EXPORT_TARGET);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const date = new Date().toISOString().slice(0, 10);
+
+  const handleExportImage = async (format: ImageFormat) => {
+    setExportError(null);
+    const team = teams.find(t => t.name === target);
+    const title = team ? team.name : `${leagueName} Rankings`;
+    const columns = team
+      ? buildTeamImageColumns(teamRosters[team.name] || [], leagueSettings, team.color)
+      : buildBoardImageColumns(playersByPosition, POSITIONS_TO_DISPLAY, tiersByPosition, favorites, playerHighlightColors);
+    const { svg, width, height } = buildBoardSvg(title, columns);
+    const fileName = `${toFileName(team ? team.name : `${leagueName}-board`)}-${date}.${format}`;
+    try {
+      const data = format === 'svg' ? new Blob([svg], { type: 'image/svg+xml' }) : await svgToPngBlob(svg, width, height);
+      downloadBlob(data, fileName);
+    } catch (error: any) {
+      setExportError(error.message || 'The image could not be created.');
+    }
+  };
+
+  const handleDownloadCsv = () => {
+    const tiers = new Map<string, number>();
+    for (const positionTiers of Object.values<Map<string, number>>(tiersByPosition)) {
+      positionTiers.forEach((tier, playerId) => tiers.set(playerId, tier));
+    }
+    const sorted = [...players].sort((a, b) => a.rank - b.rank);
+    downloadBlob(new Blob([playersToCsv(sorted, tiers)], { type: 'text/csv' }), `${toFileName(`${leagueName}-rankings`)}-${date}.csv`);
+  };
+
+  const hasPlayers = players.length > 0;
+  const buttonClassName = 'bg-gray-600 text-white font-semibold py-1.5 px-4 rounded-md hover:bg-gray-500 transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Print & Export</h3>
+        <p className="text-sm text-gray-400">
+          Print a compact landscape cheat sheet of the position board, save the board or a team as an image, or download the rankings as CSV.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <button onClick={() => window.print()} disabled={!hasPlayers} className="bg-cyan-600 text-white font-semibold py-1.5 px-4 rounded-md hover:bg-cyan-700 transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed">
+          Print Cheat Sheet
+        </button>
+        <button onClick={handleDownloadCsv} disabled={!hasPlayers} className={buttonClassName}>
+          Download CSV
+        </button>
+        <div className="flex flex-wrap items-end gap-2 sm:ml-auto">
+          <label className="flex flex-col gap-1 text-gray-300">
+            Image of
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            >
+              <option value={BOARD_EXPORT_TARGET}>Position board</option>
+              {teams.map(team => <option key={team.name} value={team.name}>{team.name}</option>)}
+            </select>
+          </label>
+          <button onClick={() => handleExportImage('png')} disabled={!hasPlayers} className={buttonClassName}>PNG</button>
+          <button onClick={() => handleExportImage('svg')} disabled={!hasPlayers} className={buttonClassName}>SVG</button>
+        </div>
+      </div>
+      {exportError && <p className="text-sm text-red-300">{exportError}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
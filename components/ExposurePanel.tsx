@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { ExposureReport, ExposureThresholds, GroupExposure, PlayerExposure } from '../types';
+import { POSITIONS_TO_DISPLAY } from '../constants';
+import { UNKNOWN_NFL_TEAM } from '../services/exposureService';
+
+interface ExposurePanelProps {
+  report: ExposureReport;
+  thresholds: ExposureThresholds;
+  setThresholds: React.Dispatch<React.SetStateAction<ExposureThresholds>>;
+  onActivateTeams: (teamNames: string[], playerName: string) => void;
+}
+
+type ExposureTab = 'players' | 'positions' | 'nflTeams';
+type PlayerSortKey = 'count' | 'rank' | 'name' | 'position';
+type GroupSortKey = 'count' | 'key';
+
+const TABS: { tab: ExposureTab; label: string }[] = [
+  { tab: 'players', label: 'Players' },
+  { tab: 'positions', label: 'Positions' },
+  { tab: 'nflTeams', label: 'NFL Teams' },
+];
+
+const ALL_POSITIONS = '';
+
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+const SortHeader: React.FC<{ label: string; isActive: boolean; isDescending: boolean; onClick: () => void; align?: 'left' | 'right' }> = ({ label, isActive, isDescending, onClick, align = 'left' }) => (
+  <th className={`py-1 px-2 ${align === 'right' ? 'text-right' : 'text-left'}`}>
+    <button onClick={onClick} className={`uppercase text-xs font-medium ${isActive ? 'text-cyan-300' : 'text-gray-400 hover:text-gray-200'}`}>
+      {label}{isActive ? (isDescending ? ' ▼' : ' ▲') : ''}
+    </button>
+  </th>
+);
+
+const ExposurePanel: React.FC<ExposurePanelProps> = ({ report, thresholds, setThresholds, onActivateTeams }) => {
+  const [tab, setTab] = useState<ExposureTab>('players');
+  const [positionFilter, setPositionFilter] = useState(ALL_POSITIONS);
+  const [playerSort, setPlayerSort] = useState<{ key: PlayerSortKey; isDescending: boolean }>({ key: 'count', isDescending: true });
+  const [groupSort, setGroupSort] = useState<{ key: GroupSortKey; isDescending: boolean }>({ key: 'count', isDescending: true });
+
+  const isPlayerOverexposed = (exposure: PlayerExposure) => exposure.share * 100 > thresholds.player;
+  const isNflTeamOverexposed = (group: GroupExposure) => group.key !== UNKNOWN_NFL_TEAM && group.share * 100 > thresholds.nflTeam;
+
+  const sortedPlayers = useMemo(() => {
+    const compare: Record<PlayerSortKey, (a: PlayerExposure, b: PlayerExposure) => number> = {
+      count: (a, b) => a.teamNames.length - b.teamNames.length || b.player.rank - a.player.rank,
+      rank: (a, b) => a.player.rank - b.player.rank,
+      name: (a, b) => a.player.name.localeCompare(b.player.name),
+      position: (a, b) => a.player.position.localeCompare(b.player.position) || (a.player.positionalRank ?? 0) - (b.player.positionalRank ?? 0),
+    };
+    const direction = playerSort.isDescending ? -1 : 1;
+    return report.players
+      .filter(exposure => positionFilter === ALL_POSITIONS || exposure.player.position.toUpperCase() === positionFilter)
+      .sort((a, b) => compare[playerSort.key](a, b) * direction);
+  }, [report.players, positionFilter, playerSort]);
+
+  const sortGroups = (groups: GroupExposure[]) => {
+    const direction = groupSort.isDescending ? -1 : 1;
+    return [...groups].sort((a, b) => (groupSort.key === 'count' ? a.count - b.count : a.key.localeCompare(b.key)) * direction);
+  };
+
+  const togglePlayerSort = (key: PlayerSortKey) => {
+    // Counts read best high-to-low; everything else starts ascending.
+    setPlayerSort(prev => prev.key === key ? { key, isDescending: !prev.isDescending } : { key, isDescending: key === 'count' });
+  };
+
+  const toggleGroupSort = (key: GroupSortKey) => {
+    setGroupSort(prev => prev.key === key ? { key, isDescending: !prev.isDescending } : { key, isDescending: key === 'count' });
+  };
+
+  const overexposedPlayerCount = report.players.filter(isPlayerOverexposed).length;
+  const overexposedNflTeamCount = report.nflTeams.filter(isNflTeamOverexposed).length;
+
+  if (report.teamCount === 0) {
+    return (
+      <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-2">
+        <h3 className="text-xl font-bold text-gray-200">Exposure</h3>
+        <p className="text-gray-400 text-sm text-center">Save teams to see how often each player shows up across them.</p>
+      </div>
+    );
+  }
+
+  const groups = tab === 'positions' ? report.positions : report.nflTeams;
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Exposure</h3>
+        <p className="text-sm text-gray-400">
+          {report.teamCount} teams, {report.pickCount} rostered players from the current rankings.
+          {overexposedPlayerCount > 0 && <span className="text-red-300"> {overexposedPlayerCount} players over {thresholds.player}%.</span>}
+          {overexposedNflTeamCount > 0 && <span className="text-red-300"> {overexposedNflTeamCount} NFL teams over {thresholds.nflTeam}%.</span>}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-3 text-sm">
+        <div className="flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Exposure breakdown">
+          {TABS.map(option => (
+            <button
+              key={option.tab}
+              onClick={() => setTab(option.tab)}
+              aria-pressed={tab === option.tab}
+              className={`px-3 py-1.5 font-semibold transition-colors ${tab === option.tab ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-gray-300">
+            Max player exposure (% of teams)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={thresholds.player}
+              onChange={(e) => setThresholds(prev => ({ ...prev, player: Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), 100) }))}
+              className="w-20 bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-300">
+            Max NFL team exposure (% of players)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={thresholds.nflTeam}
+              onChange={(e) => setThresholds(prev => ({ ...prev, nflTeam: Math.min(Math.max(parseInt(e.target.value, 10) || 0, 0), 100) }))}
+              className="w-20 bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            />
+          </label>
+        </div>
+      </div>
+
+      {tab === 'players' ? (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-400">Click a player to show only the teams that roster them.</p>
+            <select
+              value={positionFilter}
+              onChange={(e) => setPositionFilter(e.target.value)}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              aria-label="Exposure position"
+            >
+              <option value={ALL_POSITIONS}>All positions</option>
+              {POSITIONS_TO_DISPLAY.map(position => <option key={position} value={position}>{position}</option>)}
+            </select>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-800">
+                <tr>
+                  <SortHeader label="Rank" isActive={playerSort.key === 'rank'} isDescending={playerSort.isDescending} onClick={() => togglePlayerSort('rank')} />
+                  <SortHeader label="Player" isActive={playerSort.key === 'name'} isDescending={playerSort.isDescending} onClick={() => togglePlayerSort('name')} />
+                  <SortHeader label="Pos" isActive={playerSort.key === 'position'} isDescending={playerSort.isDescending} onClick={() => togglePlayerSort('position')} />
+                  <SortHeader label="Teams" align="right" isActive={playerSort.key === 'count'} isDescending={playerSort.isDescending} onClick={() => togglePlayerSort('count')} />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedPlayers.map(exposure => {
+                  const isOverexposed = isPlayerOverexposed(exposure);
+                  return (
+                    <tr
+                      key={exposure.player.id}
+                      onClick={() => onActivateTeams(exposure.teamNames, exposure.player.name)}
+                      className="border-t border-gray-700 cursor-pointer hover:bg-gray-700"
+                      title={exposure.teamNames.join(', ')}
+                    >
+                      <td className="py-1 px-2 text-gray-400">{exposure.player.rank}</td>
+                      <td className="py-1 px-2 font-semibold text-gray-100">
+                        {exposure.player.name}
+                        {exposure.player.team && <span className="ml-1 text-xs font-normal text-gray-400">{exposure.player.team}</span>}
+                      </td>
+                      <td className="py-1 px-2 text-gray-300">{exposure.player.position}{exposure.player.positionalRank ?? ''}</td>
+                      <td className={`py-1 px-2 text-right ${isOverexposed ? 'text-red-300 font-bold' : 'text-gray-200'}`}>
+                        {exposure.teamNames.length} · {formatShare(exposure.share)}
+                        {isOverexposed && <span className="ml-2 text-[10px] uppercase bg-red-900/60 text-red-200 px-1.5 py-0.5 rounded">Over</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <SortHeader label={tab === 'positions' ? 'Position' : 'NFL Team'} isActive={groupSort.key === 'key'} isDescending={groupSort.isDescending} onClick={() => toggleGroupSort('key')} />
+              <SortHeader label="Players" align="right" isActive={groupSort.key === 'count'} isDescending={groupSort.isDescending} onClick={() => toggleGroupSort('count')} />
+            </tr>
+          </thead>
+          <tbody>
+            {sortGroups(groups).map(group => {
+              const isOverexposed = tab === 'nflTeams' && isNflTeamOverexposed(group);
+              return (
+                <tr key={group.key} className="border-t border-gray-700">
+                  <td className="py-1 px-2 font-semibold text-gray-100">{group.key}</td>
+                  <td className={`py-1 px-2 text-right ${isOverexposed ? 'text-red-300 font-bold' : 'text-gray-200'}`}>
+                    {group.count} · {formatShare(group.share)}
+                    {isOverexposed && <span className="ml-2 text-[10px] uppercase bg-red-900/60 text-red-200 px-1.5 py-0.5 rounded">Over</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ExposurePanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { League } from '../types';
+
+interface LeagueSwitcherProps {
+  leagues: League[];
+  activeLeagueId: string;
+  onSwitch: (leagueId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (leagueId: string, name: string) => void;
+  onDelete: (leagueId: string) => void;
+  onCopyRankings: (fromLeagueId: string) => void;
+}
+
+type EditMode = 'create' | 'rename' | null;
+
+const LeagueSwitcher: React.FC<LeagueSwitcherProps> = ({ leagues, activeLeagueId, onSwitch, onCreate, onRename, onDelete, onCopyRankings }) => {
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [nameValue, setNameValue] = useState('');
+  const activeLeague = leagues.find(league => league.id === activeLeagueId) ?? leagues[0];
+  const otherLeagues = leagues.filter(league => league.id !== activeLeague.id);
+
+  const startEditing = (mode: EditMode) => {
+    setEditMode(prev => prev === mode ? null : mode);
+    setNameValue(mode === 'rename' ? activeLeague.name : '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameValue.trim();
+    if (!name) return;
+    if (leagues.some(league => (editMode === 'create' || league.id !== activeLeague.id) && league.name.toLowerCase() === name.toLowerCase())) {
+      alert("A league with this name already exists.");
+      return;
+    }
+    if (editMode === 'create') {
+      onCreate(name);
+    } else {
+      onRename(activeLeague.id, name);
+    }
+    setEditMode(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${activeLeague.name}" with its rankings, favorites, teams and settings?`)) {
+      setEditMode(null);
+      onDelete(activeLeague.id);
+    }
+  };
+
+  const buttonClassName = 'bg-gray-700 hover:bg-gray-600 text-gray-200 font-semibold py-1 px-3 rounded-md text-sm transition-colors disabled:text-gray-500 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <label htmlFor="league-switcher" className="text-sm text-gray-400">League</label>
+        <select
+          id="league-switcher"
+          value={activeLeague.id}
+          onChange={(e) => { setEditMode(null); onSwitch(e.target.value); }}
+          className="bg-gray-800 text-gray-100 border border-gray-600 rounded-md px-2 py-1 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        >
+          {leagues.map(league => <option key={league.id} value={league.id}>{league.name}</option>)}
+        </select>
+        <button onClick={() => startEditing('create')} className={buttonClassName}>New</button>
+        <button onClick={() => startEditing('rename')} className={buttonClassName}>Rename</button>
+        <button onClick={handleDelete} disabled={leagues.length < 2} className={buttonClassName} title={leagues.length < 2 ? 'The last league can\'t be deleted' : undefined}>
+          Delete
+        </button>
+        {otherLeagues.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => { if (e.target.value) onCopyRankings(e.target.value); }}
+            className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            aria-label="Copy rankings from another league"
+          >
+            <option value="">Copy rankings from...</option>
+            {otherLeagues.map(league => <option key={league.id} value={league.id}>{league.name}</option>)}
+          </select>
+        )}
+      </div>
+      {editMode && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={nameValue}
+            onChange={(e) => setNameValue(e.target.value)}
+            placeholder={editMode === 'create' ? 'New league name' : 'League name'}
+            autoFocus
+            className="bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            aria-label={editMode === 'create' ? 'New league name' : 'League name'}
+          />
+          <button
+            type="submit"
+            disabled={!nameValue.trim()}
+            className="bg-green-600 hover:bg-green-700 text-white font-semibold py-1 px-3 rounded-md text-sm transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+          >
+            {editMode === 'create' ? 'Create' : 'Save'}
+          </button>
+          <button type="button" onClick={() => setEditMode(null)} className={buttonClassName}>Cancel</button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default LeagueSwitcher;
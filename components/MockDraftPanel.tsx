@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { DraftOrder, DraftPick, LeagueSettings, MockDraftSettings, MockDraftSummary } from '../types';
+import { formatPickLabel, getPicksUntilSlot, getSlotForPick } from '../services/draftService';
+import { getMockDraftRounds } from '../services/mockDraftService';
+import DraftBoard from './DraftBoard';
+
+interface MockDraftPanelProps {
+  settings: MockDraftSettings;
+  setSettings: React.Dispatch<React.SetStateAction<MockDraftSettings>>;
+  leagueSettings: LeagueSettings;
+  picks: DraftPick[] | null;
+  onStart: () => void;
+  onEnd: () => void;
+  summary: MockDraftSummary | null;
+  hideDrafted: boolean;
+  onToggleHideDrafted: () => void;
+  onSaveMyPicks: (teamName: string) => boolean;
+}
+
+const formatValue = (value: number) => value.toFixed(1);
+
+const MockDraftPanel: React.FC<MockDraftPanelProps> = ({
+  settings,
+  setSettings,
+  leagueSettings,
+  picks,
+  onStart,
+  onEnd,
+  summary,
+  hideDrafted,
+  onToggleHideDrafted,
+  onSaveMyPicks,
+}) => {
+  const [teamName, setTeamName] = useState('');
+  const isRunning = picks !== null;
+  const rounds = getMockDraftRounds(leagueSettings);
+  const slots = Array.from({ length: settings.leagueSize }, (_, i) => i + 1);
+  const nextPickNumber = (picks?.length ?? 0) + 1;
+  const picksUntilMine = getPicksUntilSlot(nextPickNumber, settings.mySlot, settings);
+
+  const handleLeagueSizeChange = (value: string) => {
+    const leagueSize = Math.min(Math.max(parseInt(value, 10) || 2, 2), 32);
+    setSettings(prev => ({ ...prev, leagueSize, mySlot: Math.min(prev.mySlot, leagueSize) }));
+  };
+
+  const handleSaveTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSaveMyPicks(teamName.trim())) {
+      setTeamName('');
+    }
+  };
+
+  const inputClassName = 'bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:text-gray-500';
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-xl font-bold text-gray-200">Mock Draft</h3>
+          <p className="text-sm text-gray-400">
+            Computer teams draft from the pasted rankings, filling their lineups as they go. {rounds} rounds, from the league lineup settings.
+          </p>
+        </div>
+        {isRunning && (
+          <p className="text-sm text-gray-300">
+            {summary ? (
+              <span className="font-semibold text-green-400">Draft complete</span>
+            ) : (
+              <>
+                Pick <span className="font-semibold text-white">{formatPickLabel(nextPickNumber, settings.leagueSize)}</span> ·{' '}
+                <span className={picksUntilMine === 0 ? 'font-bold text-green-400' : 'font-semibold text-cyan-300'}>
+                  {picksUntilMine === 0 ? "You're on the clock! Pick from the tables below." : `Slot ${getSlotForPick(nextPickNumber, settings)} on the clock`}
+                </span>
+              </>
+            )}
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-300">
+          League Size
+          <input
+            type="number"
+            min={2}
+            max={32}
+            value={settings.leagueSize}
+            onChange={(e) => handleLeagueSizeChange(e.target.value)}
+            disabled={isRunning}
+            className={`w-20 ${inputClassName}`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Order
+          <select
+            value={settings.order}
+            onChange={(e) => setSettings(prev => ({ ...prev, order: e.target.value as DraftOrder }))}
+            disabled={isRunning}
+            className={inputClassName}
+          >
+            <option value="snake">Snake</option>
+            <option value="linear">Linear</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          My Slot
+          <select
+            value={settings.mySlot}
+            onChange={(e) => setSettings(prev => ({ ...prev, mySlot: parseInt(e.target.value, 10) }))}
+            disabled={isRunning}
+            className={inputClassName}
+          >
+            {slots.map(slot => <option key={slot} value={slot}>{slot}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Randomness ({Math.round(settings.randomness * 100)}%)
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={Math.round(settings.randomness * 100)}
+            onChange={(e) => setSettings(prev => ({ ...prev, randomness: parseInt(e.target.value, 10) / 100 }))}
+            disabled={isRunning}
+            className="accent-cyan-500"
+          />
+        </label>
+        <div className="flex gap-2 ml-auto">
+          {isRunning && (
+            <button
+              type="button"
+              onClick={onToggleHideDrafted}
+              className="bg-gray-600 text-white font-semibold py-1 px-4 rounded-md hover:bg-gray-500 transition-colors"
+            >
+              {hideDrafted ? 'Show Drafted' : 'Hide Drafted'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onStart}
+            className="bg-cyan-600 text-white font-semibold py-1 px-4 rounded-md hover:bg-cyan-700 transition-colors"
+          >
+            {isRunning ? 'Restart' : 'Start Mock Draft'}
+          </button>
+          {isRunning && (
+            <button
+              type="button"
+              onClick={onEnd}
+              className="bg-red-700 text-white font-semibold py-1 px-4 rounded-md hover:bg-red-600 transition-colors"
+            >
+              End
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isRunning && <DraftBoard picks={picks} settings={settings} minRounds={rounds} />}
+
+      {summary && (
+        <div className="flex flex-col gap-3">
+          <p className="text-gray-200">
+            Your starters rank <span className="font-bold text-cyan-300">#{summary.myRank}</span> of {summary.teams.length} by value.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <table className="w-full">
+              <thead>
+                <tr className="text-gray-400 text-xs uppercase">
+                  <th className="text-left py-1">Position</th>
+                  <th className="text-right py-1">Mine</th>
+                  <th className="text-right py-1">League Avg</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.positions.map(({ position, mine, average }) => (
+                  <tr key={position} className="border-t border-gray-700">
+                    <td className="py-1 font-semibold text-gray-200">{position}</td>
+                    <td className={`py-1 text-right ${mine >= average ? 'text-green-300' : 'text-red-300'}`}>{formatValue(mine)}</td>
+                    <td className="py-1 text-right text-gray-300">{formatValue(average)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <ol className="flex flex-col gap-1">
+              {[...summary.teams].sort((a, b) => b.starterValue - a.starterValue).map((team, index) => (
+                <li
+                  key={team.slot}
+                  className={`flex justify-between px-2 py-1 rounded-md ${team.slot === settings.mySlot ? 'bg-cyan-900/60 text-cyan-100' : 'bg-gray-700 text-gray-300'}`}
+                >
+                  <span>{index + 1}. Slot {team.slot}{team.slot === settings.mySlot ? ' (Me)' : ''}</span>
+                  <span>{formatValue(team.starterValue)} starters · {formatValue(team.rosterValue)} roster</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+          <form onSubmit={handleSaveTeam} className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              placeholder="Team name for my mock draft"
+              className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              aria-label="Team name for my mock draft picks"
+            />
+            <button
+              type="submit"
+              className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+              disabled={!teamName.trim()}
+            >
+              Save as Team
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MockDraftPanel;
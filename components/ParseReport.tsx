@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { ParsedLine } from '../types';
+
+interface ParseReportProps {
+  lines: ParsedLine[];
+  onSelectLine: (lineNumber: number) => void;
+  onFixLine: (lineNumber: number, newText: string) => void;
+}
+
+const ProblemLineRow: React.FC<{ line: ParsedLine; onSelectLine: ParseReportProps['onSelectLine']; onFixLine: ParseReportProps['onFixLine'] }> = ({ line, onSelectLine, onFixLine }) => {
+  const [draft, setDraft] = useState(line.text);
+  const isSkipped = line.status === 'skipped';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft !== line.text) {
+      onFixLine(line.lineNumber, draft);
+    }
+  };
+
+  return (
+    <li className="flex flex-col gap-1 bg-gray-700 p-2 rounded-md">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <button
+          type="button"
+          onClick={() => onSelectLine(line.lineNumber)}
+          className="font-mono text-cyan-300 hover:underline"
+          aria-label={`Show line ${line.lineNumber} in the rankings text`}
+        >
+          Line {line.lineNumber}
+        </button>
+        <span className={`px-1.5 py-0.5 rounded font-semibold uppercase ${isSkipped ? 'bg-red-900/60 text-red-200' : 'bg-yellow-900/60 text-yellow-200'}`}>
+          {line.status}
+        </span>
+        <span className="text-gray-300">{line.reason}</span>
+        {line.player && (
+          <span className="text-gray-400">
+            Read as {line.player.name} · {line.player.position}{line.player.team ? ` · ${line.player.team}` : ''}
+          </span>
+        )}
+      </div>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="flex-grow bg-gray-800 text-gray-200 border border-gray-600 rounded-md px-2 py-1 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label={`Edit line ${line.lineNumber}`}
+        />
+        <button
+          type="submit"
+          disabled={draft === line.text}
+          className="bg-cyan-600 text-white text-xs font-semibold py-1 px-3 rounded-md hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          Apply
+        </button>
+      </form>
+    </li>
+  );
+};
+
+const ParseReport: React.FC<ParseReportProps> = ({ lines, onSelectLine, onFixLine }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const parsedCount = lines.filter(line => line.player).length;
+  const problemLines = lines.filter(line => line.status !== 'parsed');
+  const skippedCount = problemLines.filter(line => line.status === 'skipped').length;
+  const ambiguousCount = problemLines.length - skippedCount;
+
+  if (lines.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 px-4 py-3 rounded-lg border border-gray-700 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="text-gray-300">
+          <span className="font-semibold text-green-400">{parsedCount} parsed</span>
+          {skippedCount > 0 && <>, <span className="font-semibold text-red-400">{skippedCount} skipped</span></>}
+          {ambiguousCount > 0 && <>, <span className="font-semibold text-yellow-400">{ambiguousCount} ambiguous</span></>}
+        </p>
+        {problemLines.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setIsExpanded(prev => !prev)}
+            className="text-cyan-300 hover:text-cyan-200 font-medium"
+          >
+            {isExpanded ? 'Hide problem lines' : `Review ${problemLines.length} problem ${problemLines.length === 1 ? 'line' : 'lines'}`}
+          </button>
+        )}
+      </div>
+      {isExpanded && problemLines.length > 0 && (
+        <ul className="flex flex-col gap-2 max-h-80 overflow-y-auto">
+          {problemLines.map(line => (
+            <ProblemLineRow key={`${line.lineNumber}-${line.text}`} line={line} onSelectLine={onSelectLine} onFixLine={onFixLine} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ParseReport;
@@ -0,0 +1,499 @@
+import React, { useMemo, useState } from 'react';
+import { FantasyTeam, Player, PlayerNote, PlayerTag, StackRole } from '../types';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+
+export const StarIcon: React.FC<{ isFilled: boolean; className?: string }> = ({ isFilled, className = "w-6 h-6" }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    viewBox="0 0 24 24"
+    fill={isFilled ? "currentColor" : "none"}
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    className={`${className} ${isFilled ? 'text-yellow-400' : 'text-gray-500 hover:text-yellow-400'}`}
+    aria-label={isFilled ? 'Favorited' : 'Not favorited'}
+  >
+    <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"></polygon>
+  </svg>
+);
+
+export interface PlayerTableProps {
+  players: Player[];
+  favorites: Set<string>;
+  onToggleFavorite?: (playerId: string) => void;
+  playerHighlightColors: Record<string, string[]>;
+  draftedSlots?: Map<string, number>;
+  onDraftPlayer?: (playerId: string) => void;
+  tiers?: Map<string, number>;
+  manualTierBreaks?: Set<string>;
+  onToggleTierBreak?: (playerId: string) => void;
+  rankTrends?: Map<string, number | null>;
+  showPositionBadge?: boolean;
+  teams?: FantasyTeam[];
+  playerTeamNames?: Record<string, string[]>;
+  onTogglePlayerTeam?: (playerId: string, teamName: string) => void;
+  values?: Map<string, number>;
+  onMovePlayer?: (playerId: string, targetId: string, placeAfter: boolean) => void;
+  overriddenIds?: Set<string>;
+  onResetRank?: (playerId: string) => void;
+  playerNotes?: Record<string, PlayerNote>;
+  playerTags?: PlayerTag[];
+  onUpdatePlayerNote?: (playerId: string, note: PlayerNote) => void;
+  stackHighlights?: Map<string, StackRole>;
+  onHoverPlayer?: (playerId: string | null) => void;
+}
+
+// A custom drag type so rows only accept players dragged from a player table.
+const PLAYER_DRAG_TYPE = 'application/x-fantasy-player-id';
+// The dragged player's position goes in a drag type too, since only the types can be read before the drop.
+const PLAYER_POSITION_DRAG_TYPE_PREFIX = 'application/x-fantasy-player-position-';
+const DROP_INDICATOR_COLOR = '#22d3ee'; // cyan-400
+
+const STACK_HIGHLIGHT_COLORS: Record<StackRole, string> = {
+  teammate: '#a3e635', // lime-400
+  bringBack: '#f472b6', // pink-400
+};
+
+const POSITION_BADGE_CLASSES: Record<string, string> = {
+  QB: 'bg-rose-600/80',
+  RB: 'bg-emerald-600/80',
+  WR: 'bg-sky-600/80',
+  TE: 'bg-amber-600/80',
+  K: 'bg-violet-600/80',
+  DST: 'bg-slate-500/80',
+};
+
+const PositionBadge: React.FC<{ player: Player }> = ({ player }) => {
+  const position = player.position.toUpperCase();
+  return (
+    <span className={`inline-block min-w-[3rem] px-1.5 py-0.5 rounded text-xs font-bold text-white ${POSITION_BADGE_CLASSES[position] ?? 'bg-gray-500'}`}>
+      {position}{player.positionalRank ?? ''}
+    </span>
+  );
+};
+
+const TrendIndicator: React.FC<{ delta: number | null | undefined }> = ({ delta }) => {
+  if (delta === undefined || delta === 0) return null;
+  if (delta === null) {
+    return <span className="block text-[10px] font-bold text-cyan-300" title="New since the snapshot">NEW</span>;
+  }
+  return delta > 0
+    ? <span className="block text-[10px] font-bold text-green-400" title={`Up ${delta} since the snapshot`}>▲{delta}</span>
+    : <span className="block text-[10px] font-bold text-red-400" title={`Down ${-delta} since the snapshot`}>▼{-delta}</span>;
+};
+
+interface MenuPosition {
+  top: number;
+  left: number;
+}
+
+// The open team or note menu. The table keeps it rather than the row, so a virtualized row scrolling
+// out of range doesn't close the menu or lose a note being typed.
+interface OpenMenu {
+  playerId: string;
+  kind: 'teams' | 'notes';
+  position: MenuPosition;
+}
+
+const MenuButton: React.FC<{ label: string; ariaLabel: string; isOpen: boolean; menuWidth: number; onToggle: (position: MenuPosition | null) => void }> = ({ label, ariaLabel, isOpen, menuWidth, onToggle }) => {
+  // Menus are fixed-positioned from the button so the table's scroll container doesn't clip them.
+  const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onToggle(isOpen ? null : { top: rect.bottom + 4, left: Math.max(8, rect.right - menuWidth) });
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      className={`${isOpen ? 'visible' : 'invisible group-hover:visible'} text-xs font-medium text-gray-400 hover:text-cyan-300`}
+      aria-label={ariaLabel}
+      aria-expanded={isOpen}
+    >
+      {label}
+    </button>
+  );
+};
+
+const TEAM_MENU_WIDTH = 192;
+const NOTE_MENU_WIDTH = 256;
+
+const TeamMenu: React.FC<{
+  player: Player;
+  teams: FantasyTeam[];
+  memberOf: string[];
+  onToggle: (playerId: string, teamName: string) => void;
+  position: MenuPosition;
+  onClose: () => void;
+}> = ({ player, teams, memberOf, onToggle, position, onClose }) => (
+  <>
+    <span className="fixed inset-0 z-10" onClick={onClose} onWheel={onClose} />
+    <ul className="fixed z-20 w-48 bg-gray-800 border border-gray-600 rounded-md shadow-xl py-1 text-left" style={position}>
+      {teams.map(team => (
+        <li key={team.name}>
+          <label className="flex items-center gap-2 px-3 py-1 text-sm font-normal text-gray-200 hover:bg-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={memberOf.includes(team.name)}
+              onChange={() => onToggle(player.id, team.name)}
+              className="accent-cyan-500"
+            />
+            <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: team.color }} />
+            <span className="truncate">{team.name}</span>
+          </label>
+        </li>
+      ))}
+    </ul>
+  </>
+);
+
+const TagChip: React.FC<{ tag: PlayerTag }> = ({ tag }) => (
+  <span className="px-1.5 py-0.5 rounded-full text-[10px] font-semibold text-white" style={{ backgroundColor: tag.color }}>
+    {tag.name}
+  </span>
+);
+
+const NoteMenu: React.FC<{
+  player: Player;
+  note: PlayerNote | undefined;
+  tags: PlayerTag[];
+  onChange: (playerId: string, note: PlayerNote) => void;
+  position: MenuPosition;
+  onClose: () => void;
+}> = ({ player, note, tags, onChange, position, onClose }) => {
+  const text = note?.text ?? '';
+  const selectedTags = note?.tags ?? [];
+
+  const handleToggleTag = (tagName: string) => {
+    const nextTags = selectedTags.includes(tagName) ? selectedTags.filter(name => name !== tagName) : [...selectedTags, tagName];
+    onChange(player.id, { text, tags: nextTags });
+  };
+
+  return (
+    <>
+      <span className="fixed inset-0 z-10" onClick={onClose} onWheel={onClose} />
+      <div className="fixed z-20 w-64 bg-gray-800 border border-gray-600 rounded-md shadow-xl p-3 flex flex-col gap-2 text-left font-normal" style={position}>
+        <textarea
+          value={text}
+          onChange={(e) => onChange(player.id, { text: e.target.value, tags: selectedTags })}
+          placeholder={`Notes on ${player.name}`}
+          rows={3}
+          autoFocus
+          className="w-full bg-gray-900 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-none"
+          aria-label={`Notes on ${player.name}`}
+        />
+        {tags.length === 0 ? (
+          <p className="text-xs text-gray-400">Create tags in the Tags panel to label players.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1" role="group" aria-label="Tags">
+            {tags.map(tag => {
+              const isSelected = selectedTags.includes(tag.name);
+              return (
+                <button
+                  key={tag.name}
+                  onClick={() => handleToggleTag(tag.name)}
+                  aria-pressed={isSelected}
+                  className="px-2 py-0.5 rounded-full border text-xs font-semibold text-gray-100 transition-colors"
+                  style={{ borderColor: tag.color, backgroundColor: isSelected ? tag.color : 'transparent' }}
+                >
+                  {tag.name}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+const COLUMN_COUNT = 4;
+
+// Longer tables only render the rows near the visible part of their own scroll area.
+const VIRTUALIZE_MIN_ROWS = 60;
+// Estimated heights for virtualized tables; rows with extra lines are a little taller.
+const PLAYER_ROW_HEIGHT = 49;
+const TIER_ROW_HEIGHT = 25;
+
+const PlayerTable: React.FC<PlayerTableProps> = ({
+  players,
+  favorites,
+  onToggleFavorite,
+  playerHighlightColors,
+  draftedSlots,
+  onDraftPlayer,
+  tiers,
+  manualTierBreaks,
+  onToggleTierBreak,
+  rankTrends,
+  showPositionBadge = false,
+  teams,
+  playerTeamNames,
+  onTogglePlayerTeam,
+  values,
+  onMovePlayer,
+  overriddenIds,
+  onResetRank,
+  playerNotes,
+  playerTags,
+  onUpdatePlayerNote,
+  stackHighlights,
+  onHoverPlayer,
+}) => {
+  const [dropTarget, setDropTarget] = useState<{ playerId: string; placeAfter: boolean } | null>(null);
+  const [openMenu, setOpenMenu] = useState<OpenMenu | null>(null);
+  // The menu goes away if its player is filtered out of the table.
+  const openMenuPlayer = openMenu ? players.find(player => player.id === openMenu.playerId) : undefined;
+  const closeMenu = () => setOpenMenu(null);
+  const toggleMenu = (playerId: string, kind: OpenMenu['kind']) => (position: MenuPosition | null) => {
+    setOpenMenu(position ? { playerId, kind, position } : null);
+  };
+  const tagsByName = new Map((playerTags ?? []).map(tag => [tag.name, tag]));
+
+  const startsTierAt = useMemo(() => players.map((player, index) => {
+    const tier = tiers?.get(player.id);
+    return tier !== undefined && (index === 0 || tier !== tiers?.get(players[index - 1].id));
+  }), [players, tiers]);
+  const rowHeights = useMemo(
+    () => startsTierAt.map(startsTier => PLAYER_ROW_HEIGHT + (startsTier ? TIER_ROW_HEIGHT : 0)),
+    [startsTierAt]
+  );
+  const isVirtualized = players.length >= VIRTUALIZE_MIN_ROWS;
+  const { containerRef, onScroll, start, end, paddingTop, paddingBottom } = useVirtualRows<HTMLDivElement>(rowHeights, isVirtualized);
+  const columnCount = values ? COLUMN_COUNT + 1 : COLUMN_COUNT;
+
+  // Players can only be dropped into a table that lists their position, where the move shows up.
+  const tablePositions = useMemo(() => new Set(players.map(player => player.position.toLowerCase())), [players]);
+  const isDropAllowed = (types: readonly string[]) => types.includes(PLAYER_DRAG_TYPE) && types.some(type =>
+    type.startsWith(PLAYER_POSITION_DRAG_TYPE_PREFIX) && tablePositions.has(type.slice(PLAYER_POSITION_DRAG_TYPE_PREFIX.length)));
+
+  const handleDragOver = (e: React.DragEvent<HTMLTableRowElement>, playerId: string) => {
+    if (!onMovePlayer || !isDropAllowed(e.dataTransfer.types)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const placeAfter = e.clientY > rect.top + rect.height / 2;
+    if (dropTarget?.playerId !== playerId || dropTarget.placeAfter !== placeAfter) {
+      setDropTarget({ playerId, placeAfter });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTableRowElement>, playerId: string) => {
+    const movedId = e.dataTransfer.getData(PLAYER_DRAG_TYPE);
+    e.preventDefault();
+    if (onMovePlayer && movedId && movedId !== playerId && dropTarget && isDropAllowed(e.dataTransfer.types)) {
+      onMovePlayer(movedId, playerId, dropTarget.placeAfter);
+    }
+    setDropTarget(null);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={onScroll}
+      className={`w-full overflow-x-auto rounded-lg shadow-xl ${isVirtualized ? 'max-h-[80vh] overflow-y-auto' : ''}`}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+      }}
+    >
+      <table className="min-w-full divide-y divide-gray-700">
+        <thead className="bg-gray-800 sticky top-0 z-[1]">
+          <tr>
+            <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-12">Fav</th>
+            <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-20">Pos Rank</th>
+            <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-16">Ovr Rank</th>
+            {values && <th scope="col" className="px-2 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider w-16" title="Value over a replacement-level starter">Value</th>}
+            <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Player</th>
+          </tr>
+        </thead>
+        <tbody className="bg-gray-700 divide-y divide-gray-600">
+          {paddingTop > 0 && <tr aria-hidden="true" style={{ height: paddingTop }}><td colSpan={columnCount} /></tr>}
+          {players.slice(start, end).map((player, offset) => {
+            const index = start + offset;
+            const isFavorite = favorites.has(player.id);
+            const highlightColors = playerHighlightColors[player.id] || [];
+            const draftedBySlot = draftedSlots?.get(player.id);
+            const tier = tiers?.get(player.id);
+            const startsTier = startsTierAt[index];
+            const isManualBreak = manualTierBreaks?.has(player.id) ?? false;
+
+            let rowStyle: React.CSSProperties = {};
+            if (highlightColors.length === 1) {
+              rowStyle = { backgroundColor: `${highlightColors[0]}40` }; // Add alpha for transparency
+            } else if (highlightColors.length > 1) {
+              const gradient = `linear-gradient(to right, ${highlightColors.map(c => `${c}99`).join(', ')})`; // Add alpha
+              rowStyle = { backgroundImage: gradient };
+            }
+            const stackRole = stackHighlights?.get(player.id);
+            if (stackRole) {
+              rowStyle = { ...rowStyle, boxShadow: `inset 0 0 0 2px ${STACK_HIGHLIGHT_COLORS[stackRole]}` };
+            }
+            if (dropTarget?.playerId === player.id) {
+              rowStyle = { ...rowStyle, boxShadow: `inset 0 ${dropTarget.placeAfter ? -2 : 2}px 0 ${DROP_INDICATOR_COLOR}` };
+            }
+            const isOverridden = overriddenIds?.has(player.id) ?? false;
+            const note = playerNotes?.[player.id];
+            const noteTags = (note?.tags ?? []).map(name => tagsByName.get(name)).filter((tag): tag is PlayerTag => tag !== undefined);
+
+            return (
+              <React.Fragment key={player.id}>
+                {startsTier && (
+                  <tr className="bg-gray-900/80">
+                    <td colSpan={columnCount} className="px-4 py-1 text-xs font-bold uppercase tracking-wider text-cyan-300">
+                      <div className="flex items-center justify-between">
+                        <span>Tier {tier}</span>
+                        {isManualBreak && onToggleTierBreak && (
+                          <button
+                            onClick={() => onToggleTierBreak(player.id)}
+                            className="text-gray-400 hover:text-red-400 normal-case font-medium"
+                            aria-label={`Remove pinned tier break above ${player.name}`}
+                          >
+                            Unpin
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )}
+                <tr
+                  className={`group transition-colors duration-200 ${isFavorite ? 'bg-yellow-900/40' : ''} ${draftedBySlot !== undefined ? 'opacity-40' : ''} ${onMovePlayer ? 'cursor-grab' : ''} hover:bg-gray-600/50`}
+                  style={rowStyle}
+                  draggable={!!onMovePlayer}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(PLAYER_DRAG_TYPE, player.id);
+                    e.dataTransfer.setData(`${PLAYER_POSITION_DRAG_TYPE_PREFIX}${player.position.toLowerCase()}`, player.position);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragOver={(e) => handleDragOver(e, player.id)}
+                  onDrop={(e) => handleDrop(e, player.id)}
+                  onDragEnd={() => setDropTarget(null)}
+                  onMouseEnter={onHoverPlayer && (() => onHoverPlayer(player.id))}
+                  onMouseLeave={onHoverPlayer && (() => onHoverPlayer(null))}
+                >
+                  <td className="px-2 py-3 text-center bg-transparent">
+                    {onToggleFavorite ? (
+                      <button onClick={() => onToggleFavorite(player.id)} className="cursor-pointer" aria-label={`Toggle favorite for ${player.name}`}>
+                        <StarIcon isFilled={isFavorite} />
+                      </button>
+                    ) : (
+                      isFavorite && <StarIcon isFilled className="w-6 h-6 mx-auto" />
+                    )}
+                  </td>
+                  <td className="px-2 py-3 whitespace-nowrap text-center text-sm text-gray-300 bg-transparent">
+                      {showPositionBadge
+                        ? <PositionBadge player={player} />
+                        : player.positionalRank ? player.positionalRank : player.position}
+                  </td>
+                  <td className="px-2 py-3 whitespace-nowrap text-center text-sm font-medium text-gray-200 bg-transparent">
+                    {player.rank}
+                    {player.sourceRank !== undefined && player.sourceRank !== player.rank && (
+                      <span className="block text-[10px] text-gray-400" title="Rank in the pasted source">src {player.sourceRank}</span>
+                    )}
+                    {isOverridden && onResetRank && (
+                      <button
+                        onClick={() => onResetRank(player.id)}
+                        className="block mx-auto text-[10px] text-gray-400 hover:text-cyan-300"
+                        aria-label={`Reset ${player.name} to the source rank`}
+                        title="Reset to the source rank"
+                      >
+                        ↺ reset
+                      </button>
+                    )}
+                    {rankTrends && <TrendIndicator delta={rankTrends.get(player.id)} />}
+                  </td>
+                  {values && (
+                    <td className={`px-2 py-3 whitespace-nowrap text-center text-sm bg-transparent ${(values.get(player.id) ?? 0) > 0 ? 'text-green-300' : 'text-gray-400'}`}>
+                      {values.get(player.id)?.toFixed(1) ?? '–'}
+                    </td>
+                  )}
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-100 bg-transparent">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>
+                        {onDraftPlayer ? (
+                          <button
+                            onClick={() => onDraftPlayer(player.id)}
+                            className={`text-left hover:text-cyan-300 ${draftedBySlot !== undefined ? 'line-through' : ''}`}
+                            aria-label={draftedBySlot !== undefined ? `Undo draft of ${player.name}` : `Draft ${player.name}`}
+                          >
+                            {player.name}
+                          </button>
+                        ) : player.name}
+                        {player.team && <span className="ml-1 text-xs font-normal text-gray-400">{player.team}</span>}
+                        {player.bye !== undefined && <span className="ml-1 text-xs font-normal text-gray-500">Bye {player.bye}</span>}
+                        {draftedBySlot !== undefined && (
+                          <span className="ml-2 text-xs font-medium text-gray-300 bg-gray-800 px-1.5 py-0.5 rounded">S{draftedBySlot}</span>
+                        )}
+                        {(noteTags.length > 0 || note?.text.trim()) && (
+                          <span className="ml-2 inline-flex flex-wrap items-center gap-1 align-middle">
+                            {noteTags.map(tag => <TagChip key={tag.name} tag={tag} />)}
+                            {note?.text.trim() && (
+                              <span className="text-xs text-gray-400 cursor-help" title={note.text}>✎</span>
+                            )}
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {onUpdatePlayerNote && (
+                          <MenuButton
+                            label="Notes"
+                            ariaLabel={`Edit notes and tags for ${player.name}`}
+                            isOpen={openMenu?.playerId === player.id && openMenu.kind === 'notes'}
+                            menuWidth={NOTE_MENU_WIDTH}
+                            onToggle={toggleMenu(player.id, 'notes')}
+                          />
+                        )}
+                        {teams && teams.length > 0 && onTogglePlayerTeam && (
+                          <MenuButton
+                            label="Teams"
+                            ariaLabel={`Add ${player.name} to teams`}
+                            isOpen={openMenu?.playerId === player.id && openMenu.kind === 'teams'}
+                            menuWidth={TEAM_MENU_WIDTH}
+                            onToggle={toggleMenu(player.id, 'teams')}
+                          />
+                        )}
+                        {onToggleTierBreak && index > 0 && !isManualBreak && (
+                          <button
+                            onClick={() => onToggleTierBreak(player.id)}
+                            className="invisible group-hover:visible text-xs font-medium text-gray-400 hover:text-cyan-300"
+                            title="Pin a tier break above this player"
+                            aria-label={`Pin tier break above ${player.name}`}
+                          >
+                            + Tier
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              </React.Fragment>
+            );
+          })}
+          {paddingBottom > 0 && <tr aria-hidden="true" style={{ height: paddingBottom }}><td colSpan={columnCount} /></tr>}
+        </tbody>
+      </table>
+      {openMenu && openMenuPlayer && openMenu.kind === 'notes' && onUpdatePlayerNote && (
+        <NoteMenu
+          player={openMenuPlayer}
+          note={playerNotes?.[openMenuPlayer.id]}
+          tags={playerTags ?? []}
+          onChange={onUpdatePlayerNote}
+          position={openMenu.position}
+          onClose={closeMenu}
+        />
+      )}
+      {openMenu && openMenuPlayer && openMenu.kind === 'teams' && teams && onTogglePlayerTeam && (
+        <TeamMenu
+          player={openMenuPlayer}
+          teams={teams}
+          memberOf={playerTeamNames?.[openMenuPlayer.id] ?? []}
+          onToggle={onTogglePlayerTeam}
+          position={openMenu.position}
+          onClose={closeMenu}
+        />
+      )}
+    </div>
+  );
+};
+
+// Memoized so tables whose props didn't change skip re-rendering when unrelated app state does.
+export default React.memo(PlayerTable);
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { FantasyTeam, LeagueSettings, Player } from '../types';
+import { buildRosterReport } from '../services/rosterService';
+
+interface RosterPanelProps {
+  settings: LeagueSettings;
+  setSettings: React.Dispatch<React.SetStateAction<LeagueSettings>>;
+  teams: FantasyTeam[];
+  teamRosters: Record<string, Player[]>;
+  unmatchedPlayers: Record<string, string[]>;
+}
+
+const SETTING_FIELDS: { key: keyof LeagueSettings; label: string }[] = [
+  { key: 'qb', label: 'QB' },
+  { key: 'rb', label: 'RB' },
+  { key: 'wr', label: 'WR' },
+  { key: 'te', label: 'TE' },
+  { key: 'flex', label: 'FLEX' },
+  { key: 'superflex', label: 'SUPERFLEX' },
+  { key: 'k', label: 'K' },
+  { key: 'dst', label: 'DST' },
+  { key: 'bench', label: 'Bench' },
+];
+
+const BREAKDOWN_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DST'];
+
+const RosterPanel: React.FC<RosterPanelProps> = ({ settings, setSettings, teams, teamRosters, unmatchedPlayers }) => {
+  const [selectedTeamName, setSelectedTeamName] = useState('');
+  const selectedTeam = teams.find(team => team.name === selectedTeamName) ?? teams[0];
+
+  const report = useMemo(
+    () => (selectedTeam ? buildRosterReport(teamRosters[selectedTeam.name] || [], settings) : null),
+    [selectedTeam, teamRosters, settings]
+  );
+  const unmatched = selectedTeam ? unmatchedPlayers[selectedTeam.name] || [] : [];
+
+  const handleSettingChange = (key: keyof LeagueSettings, value: string) => {
+    const count = Math.min(Math.max(parseInt(value, 10) || 0, 0), 20);
+    setSettings(prev => ({ ...prev, [key]: count }));
+  };
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <h3 className="text-xl font-bold text-gray-200">League Lineup &amp; Rosters</h3>
+
+      <div className="flex flex-wrap gap-3 text-sm">
+        {SETTING_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col gap-1 text-gray-300">
+            {label}
+            <input
+              type="number"
+              min={0}
+              max={20}
+              value={settings[key]}
+              onChange={(e) => handleSettingChange(key, e.target.value)}
+              className="w-20 bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      {teams.length === 0 ? (
+        <p className="text-gray-400 text-sm text-center">Save a team to check whether it can field a lineup.</p>
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            Team
+            <select
+              value={selectedTeam?.name ?? ''}
+              onChange={(e) => setSelectedTeamName(e.target.value)}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            >
+              {teams.map(team => <option key={team.name} value={team.name}>{team.name}</option>)}
+            </select>
+          </label>
+
+          {report && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="flex flex-col gap-2">
+                <h4 className="text-sm font-bold text-gray-200">Roster Breakdown</h4>
+                <ul className="grid grid-cols-3 gap-2 text-sm">
+                  {BREAKDOWN_POSITIONS.map(position => (
+                    <li key={position} className="bg-gray-700 rounded-md px-2 py-1 flex justify-between">
+                      <span className="text-gray-400">{position}</span>
+                      <span className="font-semibold text-gray-100">{report.positionCounts[position] || 0}</span>
+                    </li>
+                  ))}
+                </ul>
+                {report.warnings.length === 0 && unmatched.length === 0 ? (
+                  <p className="text-sm text-green-400">Lineup looks complete.</p>
+                ) : (
+                  <ul className="flex flex-col gap-1 text-sm text-yellow-300">
+                    {report.warnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+                    {unmatched.length > 0 && <li>⚠ {unmatched.length} not in current rankings and left out: {unmatched.join(', ')}</li>}
+                  </ul>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <h4 className="text-sm font-bold text-gray-200">Projected Starters</h4>
+                <ul className="flex flex-col gap-1 text-sm">
+                  {report.starters.map((entry, index) => (
+                    <li key={`${entry.slot}-${index}`} className={`flex gap-2 rounded-md px-2 py-1 ${entry.player ? 'bg-gray-700' : 'bg-red-900/40'}`}>
+                      <span className="w-24 text-gray-400 text-xs font-semibold self-center">{entry.slot}</span>
+                      {entry.player ? (
+                        <span className="text-gray-100">{entry.player.name} <span className="text-gray-400">{entry.player.position}{entry.player.positionalRank ?? ''} · #{entry.player.rank}</span></span>
+                      ) : (
+                        <span className="text-red-300 italic">Empty</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <h4 className="text-sm font-bold text-gray-200">Bench ({report.bench.length}/{settings.bench})</h4>
+                {report.bench.length === 0 && <p className="text-xs text-gray-400">No bench players.</p>}
+                <ul className="flex flex-col gap-1 text-sm">
+                  {report.bench.map(player => (
+                    <li key={player.id} className="bg-gray-700 rounded-md px-2 py-1 text-gray-200">
+                      {player.name} <span className="text-gray-400">{player.position}{player.positionalRank ?? ''} · #{player.rank}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RosterPanel;
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { Player, SharedView } from '../types';
+import { POSITIONS_TO_DISPLAY, POSITION_FULL_NAMES } from '../constants';
+import PlayerTable from './PlayerTable';
+
+interface SharedBoardProps {
+  view: SharedView;
+  onClose: () => void;
+}
+
+const SharedBoard: React.FC<SharedBoardProps> = ({ view, onClose }) => {
+  const favorites = useMemo(() => new Set(view.favorites), [view.favorites]);
+
+  const playerHighlightColors = useMemo(() => {
+    const colorMap: Record<string, string[]> = {};
+    for (const team of view.teams) {
+      for (const playerId of team.players) {
+        (colorMap[playerId] ??= []).push(team.color);
+      }
+    }
+    return colorMap;
+  }, [view.teams]);
+
+  const playersByPosition = useMemo(() => {
+    const grouped: Record<string, Player[]> = {};
+    for (const player of [...view.players].sort((a, b) => a.rank - b.rank)) {
+      const position = player.position.toUpperCase();
+      (grouped[position] ??= []).push(player);
+    }
+    return grouped;
+  }, [view.players]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100 font-sans p-4 sm:p-6 lg:p-8">
+      <div className="max-w-screen-2xl mx-auto flex flex-col items-center space-y-8">
+        <header className="text-center flex flex-col items-center gap-3">
+          <p className="text-sm uppercase tracking-wider text-gray-400">Shared {view.kind === 'team' ? 'team' : 'board'} · read-only</p>
+          <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+            {view.title}
+          </h1>
+          {view.teams.length > 0 && (
+            <ul className="flex flex-wrap justify-center gap-2">
+              {view.teams.map(team => (
+                <li key={team.name} className="px-3 py-1 rounded-md text-sm font-medium text-white" style={{ backgroundColor: team.color }}>
+                  {team.name} ({team.players.length})
+                </li>
+              ))}
+            </ul>
+          )}
+          <button
+            onClick={onClose}
+            className="bg-cyan-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-cyan-700 transition-colors"
+          >
+            Open My Workspace
+          </button>
+        </header>
+
+        <div className="w-full grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {POSITIONS_TO_DISPLAY.map(pos => {
+            const positionPlayers = playersByPosition[pos];
+            if (!positionPlayers || positionPlayers.length === 0) {
+              return null;
+            }
+            return (
+              <div key={pos} className="w-full flex flex-col space-y-4">
+                <h2 className="text-2xl sm:text-3xl font-bold text-cyan-300 text-center">
+                  {POSITION_FULL_NAMES[pos]}
+                </h2>
+                <PlayerTable
+                  players={positionPlayers}
+                  favorites={favorites}
+                  playerHighlightColors={playerHighlightColors}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedBoard;
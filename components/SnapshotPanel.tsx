@@ -0,0 +1,179 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Player, RankChange, RankingsSnapshot } from '../types';
+import { diffRankings } from '../services/snapshotService';
+import { assignPlayerIds } from '../services/playerIdentityService';
+
+export const CURRENT_RANKINGS_ID = 'current';
+
+interface SnapshotPanelProps {
+  snapshots: RankingsSnapshot[];
+  setSnapshots: React.Dispatch<React.SetStateAction<RankingsSnapshot[]>>;
+  currentPlayers: Player[];
+  aliases: Record<string, string>;
+  trendBaselineId: string | null;
+  onTrendBaselineChange: (snapshotId: string | null) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const ChangeList: React.FC<{ title: string; changes: RankChange[]; colorClass: string; renderDetail: (change: RankChange) => string }> = ({ title, changes, colorClass, renderDetail }) => (
+  <div className="flex flex-col gap-1 bg-gray-700 p-2 rounded-md min-w-0">
+    <h4 className={`text-sm font-bold ${colorClass}`}>{title} ({changes.length})</h4>
+    {changes.length === 0 && <p className="text-xs text-gray-400">None</p>}
+    <ul className="flex flex-col text-xs max-h-64 overflow-y-auto">
+      {changes.map(change => (
+        <li key={change.player.id} className="flex justify-between gap-2 py-0.5">
+          <span className="truncate text-gray-100">{change.player.name} <span className="text-gray-400">{change.player.position}</span></span>
+          <span className={`whitespace-nowrap ${colorClass}`}>{renderDetail(change)}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ snapshots, setSnapshots, currentPlayers, aliases, trendBaselineId, onTrendBaselineChange }) => {
+  const [snapshotName, setSnapshotName] = useState('');
+  const [baseId, setBaseId] = useState<string>('');
+  const [compareId, setCompareId] = useState<string>(CURRENT_RANKINGS_ID);
+
+  const getPlayers = useCallback((id: string): Player[] | null => {
+    if (id === CURRENT_RANKINGS_ID) return currentPlayers;
+    const snapshot = snapshots.find(s => s.id === id);
+    // Re-identify saved players so aliases added after the snapshot still apply.
+    return snapshot ? assignPlayerIds(snapshot.players, aliases) : null;
+  }, [snapshots, currentPlayers, aliases]);
+
+  const diff = useMemo(() => {
+    const base = baseId ? getPlayers(baseId) : null;
+    const compare = getPlayers(compareId);
+    return base && compare ? diffRankings(base, compare) : null;
+  }, [baseId, compareId, getPlayers]);
+
+  const handleSaveSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (currentPlayers.length === 0) {
+      alert("Visualize some rankings before saving a snapshot.");
+      return;
+    }
+    const createdAt = new Date().toISOString();
+    const name = snapshotName.trim() || `Rankings ${formatDate(createdAt)}`;
+    if (snapshots.some(snapshot => snapshot.name.toLowerCase() === name.toLowerCase())) {
+      alert("A snapshot with this name already exists.");
+      return;
+    }
+    const snapshot: RankingsSnapshot = { id: `${Date.now()}`, name, createdAt, players: currentPlayers };
+    setSnapshots(prev => [...prev, snapshot]);
+    setSnapshotName('');
+    if (!baseId) setBaseId(snapshot.id);
+  };
+
+  const handleDeleteSnapshot = (id: string) => {
+    setSnapshots(prev => prev.filter(snapshot => snapshot.id !== id));
+    if (baseId === id) setBaseId('');
+    if (compareId === id) setCompareId(CURRENT_RANKINGS_ID);
+    if (trendBaselineId === id) onTrendBaselineChange(null);
+  };
+
+  const sortedSnapshots = [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const options = (
+    <>
+      <option value={CURRENT_RANKINGS_ID}>Current rankings</option>
+      {sortedSnapshots.map(snapshot => (
+        <option key={snapshot.id} value={snapshot.id}>{snapshot.name} ({formatDate(snapshot.createdAt)})</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <h3 className="text-xl font-bold text-gray-200">Rankings Snapshots</h3>
+
+      <form onSubmit={handleSaveSnapshot} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          placeholder="Snapshot name (defaults to today's date)"
+          className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500 transition disabled:bg-gray-800 disabled:cursor-not-allowed"
+          disabled={currentPlayers.length === 0}
+          aria-label="Snapshot name"
+        />
+        <button
+          type="submit"
+          disabled={currentPlayers.length === 0}
+          className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          Save Snapshot
+        </button>
+      </form>
+
+      {snapshots.length === 0 ? (
+        <p className="text-gray-400 text-sm text-center">No snapshots yet. Save one each time you paste new rankings to track how they move.</p>
+      ) : (
+        <>
+          <ul className="flex flex-wrap gap-2">
+            {sortedSnapshots.map(snapshot => (
+              <li key={snapshot.id} className="flex items-center gap-2 bg-gray-700 pl-3 pr-1 py-1 rounded-md text-sm">
+                <span className="text-gray-100 font-medium">{snapshot.name}</span>
+                <span className="text-gray-400 text-xs">{formatDate(snapshot.createdAt)} · {snapshot.players.length} players</span>
+                <button onClick={() => handleDeleteSnapshot(snapshot.id)} className="text-gray-400 hover:text-red-400 p-1 rounded-full" aria-label={`Delete snapshot ${snapshot.name}`}>
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1 text-gray-300">
+              Compare
+              <select
+                value={baseId}
+                onChange={(e) => setBaseId(e.target.value)}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              >
+                <option value="">Choose a snapshot...</option>
+                {options}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-300">
+              Against
+              <select
+                value={compareId}
+                onChange={(e) => setCompareId(e.target.value)}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              >
+                {options}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-300 ml-auto">
+              Trend arrows in tables since
+              <select
+                value={trendBaselineId ?? ''}
+                onChange={(e) => onTrendBaselineChange(e.target.value || null)}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              >
+                <option value="">Off</option>
+                {sortedSnapshots.map(snapshot => (
+                  <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {diff && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+              <ChangeList title="Risers" changes={diff.risers} colorClass="text-green-400" renderDetail={c => `${c.previousRank} → ${c.currentRank} (▲${c.delta})`} />
+              <ChangeList title="Fallers" changes={diff.fallers} colorClass="text-red-400" renderDetail={c => `${c.previousRank} → ${c.currentRank} (▼${-c.delta})`} />
+              <ChangeList title="New" changes={diff.added} colorClass="text-cyan-300" renderDetail={c => `#${c.currentRank}`} />
+              <ChangeList title="Dropped" changes={diff.dropped} colorClass="text-gray-400" renderDetail={c => `was #${c.previousRank}`} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
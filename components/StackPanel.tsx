@@ -0,0 +1,72 @@
+import React from 'react';
+import { FantasyTeam, Player, QbStack } from '../types';
+
+interface StackPanelProps {
+  teams: FantasyTeam[];
+  teamStacks: Record<string, QbStack[]>;
+  scheduleText: string;
+  onScheduleTextChange: (text: string) => void;
+  matchupCount: number;
+  skippedScheduleLines: string[];
+}
+
+const formatPlayers = (players: Player[]) => players.map(player => `${player.name} (${player.position})`).join(', ');
+
+const StackPanel: React.FC<StackPanelProps> = ({ teams, teamStacks, scheduleText, onScheduleTextChange, matchupCount, skippedScheduleLines }) => (
+  <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+    <div>
+      <h3 className="text-xl font-bold text-gray-200">QB Stacks</h3>
+      <p className="text-sm text-gray-400">
+        A stack is a quarterback with pass catchers from the same NFL team. Paste a week's matchups to also find bring-backs from the opponent.
+        Hover a quarterback in the tables to highlight the stack partners.
+      </p>
+    </div>
+
+    <div className="flex flex-col gap-1">
+      <textarea
+        value={scheduleText}
+        onChange={(e) => onScheduleTextChange(e.target.value)}
+        placeholder={'Matchups, one game per line (e.g. Week 17 for best ball):\nBUF @ MIA\nKC vs DEN'}
+        rows={3}
+        className="w-full bg-gray-900 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500 resize-y"
+        aria-label="Matchups for bring-backs"
+      />
+      <p className="text-xs text-gray-400">
+        {matchupCount > 0 ? `${matchupCount} games loaded.` : 'No matchups loaded.'}
+        {skippedScheduleLines.length > 0 && (
+          <span className="text-yellow-300"> Couldn't read: {skippedScheduleLines.join('; ')}</span>
+        )}
+      </p>
+    </div>
+
+    {teams.length === 0 ? (
+      <p className="text-gray-400 text-sm text-center">Save teams to see their stacks.</p>
+    ) : (
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+        {teams.map(team => {
+          const stacks = teamStacks[team.name] || [];
+          return (
+            <li key={team.name} className="flex flex-col gap-1 bg-gray-700 p-3 rounded-md">
+              <h4 className="font-bold" style={{ color: team.color }}>{team.name}</h4>
+              {stacks.length === 0 ? (
+                <p className="text-xs text-gray-400">No QB stacks.</p>
+              ) : (
+                stacks.map(stack => (
+                  <p key={stack.qb.id} className="text-gray-200">
+                    <span className="font-semibold">{stack.qb.name}</span>
+                    <span className="text-gray-400 text-xs"> {stack.qb.team}</span> + {formatPlayers(stack.teammates)}
+                    {stack.bringBacks.length > 0 && (
+                      <span className="text-pink-300"> · bring-back {formatPlayers(stack.bringBacks)}</span>
+                    )}
+                  </p>
+                ))
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    )}
+  </div>
+);
+
+export default StackPanel;
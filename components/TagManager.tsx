@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { PlayerTag } from '../types';
+import { TEAM_COLORS } from '../constants';
+
+interface TagManagerProps {
+  tags: PlayerTag[];
+  setTags: React.Dispatch<React.SetStateAction<PlayerTag[]>>;
+  onDeleteTag: (tagName: string) => void;
+  tagCounts: Record<string, number>;
+}
+
+const TagManager: React.FC<TagManagerProps> = ({ tags, setTags, onDeleteTag, tagCounts }) => {
+  const [tagName, setTagName] = useState('');
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = tagName.trim();
+    if (!name) return;
+    if (tags.some(tag => tag.name.toLowerCase() === name.toLowerCase())) {
+      alert(`A tag named "${name}" already exists.`);
+      return;
+    }
+    setTags(prev => [...prev, { name, color: TEAM_COLORS[prev.length % TEAM_COLORS.length] }]);
+    setTagName('');
+  };
+
+  const handleColorChange = (name: string, color: string) => {
+    setTags(prev => prev.map(tag => tag.name === name ? { ...tag, color } : tag));
+  };
+
+  const handleDeleteTag = (name: string) => {
+    const count = tagCounts[name] ?? 0;
+    if (count > 0 && !window.confirm(`Remove the "${name}" tag from ${count} player${count === 1 ? '' : 's'}?`)) return;
+    onDeleteTag(name);
+  };
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Tags</h3>
+        <p className="text-sm text-gray-400">
+          Label players from the Notes button on any row, then filter the board by tag.
+        </p>
+      </div>
+
+      <form onSubmit={handleAddTag} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={tagName}
+          onChange={(e) => setTagName(e.target.value)}
+          placeholder="New tag (e.g. breakout)"
+          className="flex-grow bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="New tag name"
+        />
+        <button
+          type="submit"
+          disabled={!tagName.trim()}
+          className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          Add Tag
+        </button>
+      </form>
+
+      {tags.length > 0 && (
+        <ul className="flex flex-wrap gap-2 text-sm">
+          {tags.map(tag => (
+            <li key={tag.name} className="flex items-center gap-2 bg-gray-700 pl-2 pr-1 py-1 rounded-md">
+              <input
+                type="color"
+                value={tag.color}
+                onChange={(e) => handleColorChange(tag.name, e.target.value)}
+                className="h-5 w-5 bg-transparent border-0 p-0 cursor-pointer"
+                aria-label={`Color for ${tag.name}`}
+              />
+              <span className="font-semibold text-gray-100">{tag.name}</span>
+              <span className="text-xs text-gray-400">{tagCounts[tag.name] ?? 0}</span>
+              <button onClick={() => handleDeleteTag(tag.name)} className="text-gray-400 hover:text-red-400 p-1 rounded-full" aria-label={`Delete tag ${tag.name}`}>
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { FantasyTeam, LeagueSettings, LineupEntry, Player, TradeSide } from '../types';
+import { analyzeTrade } from '../services/tradeService';
+
+interface TradePanelProps {
+  teams: FantasyTeam[];
+  teamRosters: Record<string, Player[]>;
+  leagueSettings: LeagueSettings;
+  values: Map<string, number>;
+}
+
+const formatValue = (value: number) => value.toFixed(1);
+const formatDelta = (delta: number) => `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`;
+
+const getLineupChanges = (before: LineupEntry[], after: LineupEntry[]) =>
+  before
+    .map((entry, index) => ({ slot: entry.slot, before: entry.player, after: after[index]?.player }))
+    .filter(change => change.before?.id !== change.after?.id);
+
+const TradeSideCard: React.FC<{ team: FantasyTeam; side: TradeSide }> = ({ team, side }) => {
+  const changes = getLineupChanges(side.startersBefore, side.startersAfter);
+  const starterDelta = side.starterValueAfter - side.starterValueBefore;
+  return (
+    <div className="flex flex-col gap-2 bg-gray-700 p-3 rounded-md text-sm">
+      <h4 className="font-bold" style={{ color: team.color }}>{team.name}</h4>
+      <p className="text-gray-300">
+        Starters: {formatValue(side.starterValueBefore)} → {formatValue(side.starterValueAfter)}{' '}
+        <span className={starterDelta >= 0 ? 'text-green-400' : 'text-red-400'}>({formatDelta(starterDelta)})</span>
+      </p>
+      <p className="text-gray-400">
+        Whole roster: {formatValue(side.rosterValueBefore)} → {formatValue(side.rosterValueAfter)} ({formatDelta(side.rosterValueAfter - side.rosterValueBefore)})
+      </p>
+      {changes.length === 0 ? (
+        <p className="text-xs text-gray-400">Starting lineup doesn't change.</p>
+      ) : (
+        <ul className="flex flex-col gap-1 text-xs">
+          {changes.map((change, index) => (
+            <li key={`${change.slot}-${index}`} className="flex gap-2">
+              <span className="w-20 text-gray-400 font-semibold">{change.slot}</span>
+              <span className="text-red-300 line-through">{change.before?.name ?? 'Empty'}</span>
+              <span className="text-gray-500">→</span>
+              <span className="text-green-300">{change.after?.name ?? 'Empty'}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const TradePanel: React.FC<TradePanelProps> = ({ teams, teamRosters, leagueSettings, values }) => {
+  const [teamNames, setTeamNames] = useState<[string, string]>(['', '']);
+  const [outgoingIds, setOutgoingIds] = useState<[string[], string[]]>([[], []]);
+
+  // Fall back to the first two teams until a choice is made, or when a chosen team is deleted.
+  const teamA = teams.find(team => team.name === teamNames[0]) ?? teams[0];
+  const teamB = teams.find(team => team.name === teamNames[1] && team !== teamA) ?? teams.find(team => team !== teamA);
+  const selectedTeams: [FantasyTeam | undefined, FantasyTeam | undefined] = [teamA, teamB];
+
+  const rosters = selectedTeams.map(team => team ? [...(teamRosters[team.name] || [])].sort((a, b) => a.rank - b.rank) : []) as [Player[], Player[]];
+  const outgoing = rosters.map((roster, index) => roster.filter(player => outgoingIds[index].includes(player.id))) as [Player[], Player[]];
+  const analysis = outgoing[0].length > 0 || outgoing[1].length > 0 ? analyzeTrade(rosters, outgoing, leagueSettings, values) : null;
+
+  const handleTeamChange = (index: 0 | 1, name: string) => {
+    setTeamNames(prev => index === 0 ? [name, prev[1]] : [prev[0], name]);
+    setOutgoingIds(prev => index === 0 ? [[], prev[1]] : [prev[0], []]);
+  };
+
+  const handleTogglePlayer = (index: 0 | 1, playerId: string) => {
+    setOutgoingIds(prev => {
+      const ids = prev[index].includes(playerId) ? prev[index].filter(id => id !== playerId) : [...prev[index], playerId];
+      return index === 0 ? [ids, prev[1]] : [prev[0], ids];
+    });
+  };
+
+  if (teams.length < 2) {
+    return (
+      <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-2">
+        <h3 className="text-xl font-bold text-gray-200">Trade Analyzer</h3>
+        <p className="text-gray-400 text-sm text-center">Save at least two teams to analyze a trade between them.</p>
+      </div>
+    );
+  }
+
+  const verdict = analysis && teamA && teamB && (
+    analysis.favoredSide === null
+      ? { text: 'Fair trade: both sides come out about even.', className: 'bg-green-900/40 border-green-700 text-green-200' }
+      : {
+          text: `Favors ${(analysis.favoredSide === 0 ? teamA : teamB).name} by ${formatValue(analysis.margin)} starter value.`,
+          className: 'bg-yellow-900/40 border-yellow-700 text-yellow-200',
+        }
+  );
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Trade Analyzer</h3>
+        <p className="text-sm text-gray-400">Pick the players each team sends. Values come from the current rankings and league settings.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {([0, 1] as const).map(index => {
+          const team = selectedTeams[index];
+          return (
+            <div key={index} className="flex flex-col gap-2">
+              <select
+                value={team?.name ?? ''}
+                onChange={(e) => handleTeamChange(index, e.target.value)}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                aria-label={`Team ${index + 1}`}
+              >
+                {teams.filter(t => t.name !== selectedTeams[1 - index]?.name).map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+              </select>
+              {rosters[index].length === 0 ? (
+                <p className="text-xs text-gray-400">No players from the current rankings on this team.</p>
+              ) : (
+                <ul className="flex flex-col gap-1 text-sm max-h-64 overflow-y-auto">
+                  {rosters[index].map(player => (
+                    <li key={player.id}>
+                      <label className="flex items-center gap-2 bg-gray-700 px-2 py-1 rounded-md cursor-pointer hover:bg-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={outgoingIds[index].includes(player.id)}
+                          onChange={() => handleTogglePlayer(index, player.id)}
+                          className="accent-cyan-500"
+                        />
+                        <span className="flex-grow truncate text-gray-100">
+                          {player.name} <span className="text-gray-400 text-xs">{player.position}{player.positionalRank ?? ''} · #{player.rank}</span>
+                        </span>
+                        <span className="text-xs text-gray-300">{formatValue(values.get(player.id) ?? 0)}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {analysis && teamA && teamB && verdict && (
+        <>
+          <div className={`border px-4 py-2 rounded-md text-center font-semibold ${verdict.className}`}>{verdict.text}</div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TradeSideCard team={teamA} side={analysis.sides[0]} />
+            <TradeSideCard team={teamB} side={analysis.sides[1]} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TradePanel;
@@ -0,0 +1,31 @@
+import React, { useEffect } from 'react';
+
+// How long the toast stays up before it dismisses itself.
+const UNDO_TOAST_DURATION_MS = 8000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, UNDO_TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [onDismiss]);
+
+  return (
+    <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800 border border-gray-600 text-gray-100 text-sm px-4 py-3 rounded-lg shadow-lg print:hidden">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-cyan-400 hover:text-cyan-300">
+        Undo
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200" aria-label="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
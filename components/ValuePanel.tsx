@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { Player, ValueModel } from '../types';
+import { POSITIONS_TO_DISPLAY } from '../constants';
+
+interface ValuePanelProps {
+  players: Player[];
+  valueModel: ValueModel;
+  leagueSize: number;
+  onLeagueSizeChange: (leagueSize: number) => void;
+  showValues: boolean;
+  onToggleShowValues: () => void;
+  draftedSlots?: Map<string, number>;
+  onDraftPlayer?: (playerId: string) => void;
+}
+
+const BEST_AVAILABLE_COUNT = 15;
+const ALL_POSITIONS = '';
+
+const ValuePanel: React.FC<ValuePanelProps> = ({ players, valueModel, leagueSize, onLeagueSizeChange, showValues, onToggleShowValues, draftedSlots, onDraftPlayer }) => {
+  const [positionFilter, setPositionFilter] = useState(ALL_POSITIONS);
+
+  const bestAvailable = useMemo(() => players
+    .filter(player => !draftedSlots?.has(player.id))
+    .filter(player => positionFilter === ALL_POSITIONS || player.position.toUpperCase() === positionFilter)
+    .sort((a, b) => (valueModel.values.get(b.id) ?? 0) - (valueModel.values.get(a.id) ?? 0))
+    .slice(0, BEST_AVAILABLE_COUNT),
+  [players, draftedSlots, positionFilter, valueModel]);
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Value-Based Drafting</h3>
+        <p className="text-sm text-gray-400">
+          Value is a player's rank-based score over the best player at their position who wouldn't start in your league.
+          Starter counts come from the league lineup settings.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="flex flex-col gap-1 text-gray-300">
+          Teams in league
+          <input
+            type="number"
+            min={2}
+            max={32}
+            value={leagueSize}
+            onChange={(e) => onLeagueSizeChange(Math.min(Math.max(parseInt(e.target.value, 10) || 2, 2), 32))}
+            className="w-20 bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={showValues} onChange={onToggleShowValues} className="accent-cyan-500" />
+          Show value column in tables
+        </label>
+      </div>
+
+      <ul className="flex flex-wrap gap-2 text-sm">
+        {POSITIONS_TO_DISPLAY.filter(position => valueModel.replacementLevels[position]).map(position => {
+          const level = valueModel.replacementLevels[position];
+          return (
+            <li key={position} className="bg-gray-700 rounded-md px-3 py-1 text-gray-300" title={level.player ? `Replacement: ${level.player.name}` : 'Every ranked player starts'}>
+              <span className="font-semibold text-gray-100">{position}</span> {level.starters} starters · replacement{' '}
+              {level.player ? `${position}${level.player.positionalRank ?? level.starters + 1}` : 'beyond rankings'}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <h4 className="text-sm font-bold text-gray-200">Best Available by Value</h4>
+          <select
+            value={positionFilter}
+            onChange={(e) => setPositionFilter(e.target.value)}
+            className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            aria-label="Best available position"
+          >
+            <option value={ALL_POSITIONS}>All positions</option>
+            {POSITIONS_TO_DISPLAY.map(position => <option key={position} value={position}>{position}</option>)}
+          </select>
+        </div>
+        {bestAvailable.length === 0 ? (
+          <p className="text-xs text-gray-400">No players available.</p>
+        ) : (
+          <ol className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1 text-sm">
+            {bestAvailable.map((player, index) => (
+              <li key={player.id} className="flex items-center justify-between gap-2 bg-gray-700 px-2 py-1 rounded-md">
+                <span className="truncate text-gray-100">
+                  <span className="text-gray-400 mr-1">{index + 1}.</span>
+                  {player.name} <span className="text-gray-400 text-xs">{player.position}{player.positionalRank ?? ''} · #{player.rank}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="font-semibold text-green-300">{valueModel.values.get(player.id)?.toFixed(1)}</span>
+                  {onDraftPlayer && (
+                    <button onClick={() => onDraftPlayer(player.id)} className="text-xs font-semibold text-cyan-300 hover:text-cyan-100" aria-label={`Draft ${player.name}`}>
+                      Draft
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ValuePanel;
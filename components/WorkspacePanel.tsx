@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { FantasyTeam, Player, SharedView, Workspace, WorkspaceImportMode } from '../types';
+import { encodeSharedView, parseWorkspace, SHARE_HASH_PREFIX } from '../services/workspaceService';
+import { downloadBlob } from '../services/exportService';
+
+interface WorkspacePanelProps {
+  workspace: Workspace;
+  onImport: (workspace: Workspace, mode: WorkspaceImportMode) => void;
+  players: Player[];
+  favoriteIds: string[];
+  teams: FantasyTeam[];
+  activeTeamNames: string[];
+  teamRosters: Record<string, Player[]>;
+}
+
+const BOARD_SHARE_TARGET = '';
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ workspace, onImport, players, favoriteIds, teams, activeTeamNames, teamRosters }) => {
+  const [pendingWorkspace, setPendingWorkspace] = useState<Workspace | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [shareTarget, setShareTarget] = useState(BOARD_SHARE_TARGET);
+  const [shareLink, setShareLink] = useState('');
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const exported: Workspace = { ...workspace, exportedAt: new Date().toISOString() };
+    const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `fantasy-workspace-${exported.exportedAt.slice(0, 10)}.json`);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    setPendingWorkspace(null);
+    try {
+      setPendingWorkspace(parseWorkspace(await file.text()));
+    } catch (error: any) {
+      setImportError(error.message || 'The file could not be read.');
+    }
+  };
+
+  const handleConfirmImport = (mode: WorkspaceImportMode) => {
+    if (!pendingWorkspace) return;
+    if (mode === 'replace' && !window.confirm(
+      `Replace ${workspace.leagueName}'s rankings, teams, draft and settings, and the tags, notes, aliases, schedule, bye weeks and board preferences all leagues share, with the imported workspace? Your other leagues aren't changed.`
+    )) return;
+    onImport(pendingWorkspace, mode);
+    setPendingWorkspace(null);
+  };
+
+  const buildSharedView = (): SharedView => {
+    const team = teams.find(t => t.name === shareTarget);
+    if (team) {
+      const roster = teamRosters[team.name] || [];
+      return { kind: 'team', title: team.name, players: roster, favorites: [], teams: [{ ...team, players: roster.map(player => player.id) }] };
+    }
+    const activeTeams = teams
+      .filter(t => activeTeamNames.includes(t.name))
+      .map(t => ({ ...t, players: (teamRosters[t.name] || []).map(player => player.id) }));
+    return { kind: 'board', title: 'Rankings Board', players, favorites: favoriteIds, teams: activeTeams };
+  };
+
+  const handleShare = async () => {
+    setShareStatus(null);
+    try {
+      const encoded = await encodeSharedView(buildSharedView());
+      const link = `${window.location.origin}${window.location.pathname}${SHARE_HASH_PREFIX}${encoded}`;
+      setShareLink(link);
+      await navigator.clipboard.writeText(link);
+      setShareStatus('Link copied to the clipboard.');
+    } catch {
+      setShareStatus('Copy the link below to share it.');
+    }
+  };
+
+  const sharedTeam = teams.find(t => t.name === shareTarget);
+  const canShare = sharedTeam ? (teamRosters[sharedTeam.name] || []).length > 0 : players.length > 0;
+
+  return (
+    <div className="w-full max-w-6xl bg-gray-800 p-4 rounded-lg border border-gray-700 flex flex-col gap-4">
+      <div>
+        <h3 className="text-xl font-bold text-gray-200">Workspace</h3>
+        <p className="text-sm text-gray-400">
+          Everything is saved in this browser only. Export a file to move {workspace.leagueName}, along with the tags, notes, aliases and preferences all leagues share,
+          to another machine, or share a read-only link. Switch leagues to export another one.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleExport}
+          className="bg-cyan-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-cyan-700 transition-colors"
+        >
+          Export Workspace
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="bg-gray-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors"
+        >
+          Import Workspace
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {importError && <p className="text-sm text-red-300">{importError}</p>}
+
+      {pendingWorkspace && (
+        <div className="flex flex-col gap-2 bg-gray-700 p-3 rounded-md text-sm">
+          <p className="text-gray-200">
+            Exported {new Date(pendingWorkspace.exportedAt).toLocaleString()}{pendingWorkspace.leagueName && ` from ${pendingWorkspace.leagueName}`}: {pendingWorkspace.teams.length} teams,{' '}
+            {pendingWorkspace.favorites.length} favorites, {pendingWorkspace.snapshots.length} snapshots,{' '}
+            {pendingWorkspace.rankingsText.trim() ? 'rankings text' : 'no rankings text'}.
+          </p>
+          <p className="text-gray-400">
+            Merge keeps your data and settings and adds what's new. Replace overwrites {workspace.leagueName}'s data and settings and the data all leagues share; your other leagues aren't changed.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => handleConfirmImport('merge')} className="bg-green-600 hover:bg-green-700 text-white font-semibold py-1 px-3 rounded-md transition-colors">Merge</button>
+            <button onClick={() => handleConfirmImport('replace')} className="bg-red-600 hover:bg-red-700 text-white font-semibold py-1 px-3 rounded-md transition-colors">Replace</button>
+            <button onClick={() => setPendingWorkspace(null)} className="bg-gray-600 hover:bg-gray-500 text-white font-semibold py-1 px-3 rounded-md transition-colors">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={shareTarget}
+          onChange={(e) => { setShareTarget(e.target.value); setShareLink(''); setShareStatus(null); }}
+          className="bg-gray-700 text-gray-200 border border-gray-600 rounded-md px-2 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="What to share"
+        >
+          <option value={BOARD_SHARE_TARGET}>Whole board</option>
+          {teams.map(team => <option key={team.name} value={team.name}>{team.name}</option>)}
+        </select>
+        <button
+          onClick={handleShare}
+          disabled={!canShare}
+          className="bg-green-600 hover:bg-green-700 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
+        >
+          Copy Share Link
+        </button>
+        {shareStatus && <span className="text-gray-400">{shareStatus}</span>}
+      </div>
+      {shareLink && (
+        <input
+          type="text"
+          readOnly
+          value={shareLink}
+          onFocus={(e) => e.target.select()}
+          className="w-full bg-gray-900 text-gray-300 border border-gray-600 rounded-md px-3 py-2 text-xs font-mono"
+          aria-label="Share link"
+        />
+      )}
+    </div>
+  );
+};
+
+export default WorkspacePanel;
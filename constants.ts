@@ -1,5 +1,23 @@
+import { BoardView, DraftSettings, ExposureThresholds, LeagueSettings, MockDraftSettings, PlayerTag } from './types';
+
 export const POSITIONS = ['ALL', 'QB', 'RB', 'WR', 'TE', 'FLEX', 'K', 'DST'];
 
+export const POSITIONS_TO_DISPLAY = ['QB', 'RB', 'WR', 'TE', 'K', 'DST'];
+export const POSITION_FULL_NAMES: Record<string, string> = {
+  QB: 'Quarterbacks',
+  RB: 'Running Backs',
+  WR: 'Wide Receivers',
+  TE: 'Tight Ends',
+  K: 'Kickers',
+  DST: 'Defense/Special Teams'
+};
+
+export const BOARD_VIEW_OPTIONS: { view: BoardView; label: string }[] = [
+  { view: 'POSITION', label: 'By Position' },
+  { view: 'ALL', label: 'Overall' },
+  { view: 'FLEX', label: 'FLEX' },
+];
+
 // A palette of distinct colors for highlighting teams
 export const TEAM_COLORS = [
   '#0ea5e9', // sky-500
@@ -11,3 +29,70 @@ export const TEAM_COLORS = [
   '#ec4899', // pink-500
   '#14b8a6', // teal-500
 ];
+
+// Starter tags for player notes; users can recolor, delete or add to them.
+export const DEFAULT_PLAYER_TAGS: PlayerTag[] = [
+  { name: 'sleeper', color: '#10b981' },
+  { name: 'injury risk', color: '#f43f5e' },
+  { name: 'avoid', color: '#6b7280' },
+  { name: 'handcuff', color: '#8b5cf6' },
+];
+
+export const DEFAULT_DRAFT_SETTINGS: DraftSettings = {
+  leagueSize: 12,
+  order: 'snake',
+  mySlot: 1,
+};
+
+export const DEFAULT_MOCK_DRAFT_SETTINGS: MockDraftSettings = {
+  ...DEFAULT_DRAFT_SETTINGS,
+  randomness: 0.3,
+};
+
+export const DEFAULT_EXPOSURE_THRESHOLDS: ExposureThresholds = {
+  player: 30,
+  nflTeam: 15,
+};
+
+// How many players of each position the printed cheat sheet lists, sized to fit two landscape pages.
+export const CHEAT_SHEET_DEPTH: Record<string, number> = {
+  QB: 36,
+  RB: 90,
+  WR: 100,
+  TE: 36,
+  K: 20,
+  DST: 20,
+};
+
+// NFL team abbreviations, including the alternates some ranking sites still use.
+export const NFL_TEAMS = [
+  'ARI', 'ATL', 'BAL', 'BUF', 'CAR', 'CHI', 'CIN', 'CLE',
+  'DAL', 'DEN', 'DET', 'GB', 'HOU', 'IND', 'JAX', 'KC',
+  'LAC', 'LAR', 'LV', 'MIA', 'MIN', 'NE', 'NO', 'NYG',
+  'NYJ', 'PHI', 'PIT', 'SEA', 'SF', 'TB', 'TEN', 'WAS',
+  'JAC', 'WSH', 'LA', 'OAK', 'SD', 'STL', 'GNB', 'KAN', 'NOR', 'NWE', 'SFO', 'TAM', 'FA',
+];
+
+// Older or site-specific codes mapped to the current team code, so the same team always compares equal.
+export const NFL_TEAM_ALTERNATES: Record<string, string> = {
+  JAC: 'JAX', WSH: 'WAS', LA: 'LAR', OAK: 'LV', SD: 'LAC', STL: 'LAR',
+  GNB: 'GB', KAN: 'KC', NOR: 'NO', NWE: 'NE', SFO: 'SF', TAM: 'TB',
+};
+
+// Positions that count as the pass-catching half of a QB stack.
+export const STACK_POSITIONS = ['WR', 'TE', 'RB'];
+
+export const DEFAULT_LEAGUE_SETTINGS: LeagueSettings = {
+  qb: 1,
+  rb: 2,
+  wr: 2,
+  te: 1,
+  flex: 1,
+  superflex: 0,
+  k: 1,
+  dst: 1,
+  bench: 6,
+};
+
+export const FLEX_POSITIONS = ['RB', 'WR', 'TE'];
+export const SUPERFLEX_POSITIONS = ['QB', 'RB', 'WR', 'TE'];
@@ -1,36 +1,114 @@
+import { useState, useEffect, useCallback, useRef, Dispatch, SetStateAction } from 'react';
+import { loadStoredValue, readStoredValue, subscribeToStoredValue, subscribeToStoredValueRemoval, writeStoredValue } from '../services/persistedStore';
+import { getStorageSchema } from '../services/storageSchemas';
 
-import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+interface StoredState<T> {
+  key: string;
+  value: T;
+  // False while a value kept in IndexedDB is loading; nothing is saved until it arrives.
+  isLoaded: boolean;
+}
 
-function getValue<T,>(key: string, initialValue: T | (() => T)): T {
-  const savedValue = localStorage.getItem(key);
-  if (savedValue) {
-    try {
-      return JSON.parse(savedValue) as T;
-    } catch (error) {
-      console.error('Error parsing JSON from localStorage', error);
-      localStorage.removeItem(key);
-    }
-  }
+function getInitialValue<T,>(initialValue: T | (() => T)): T {
+  return initialValue instanceof Function ? initialValue() : initialValue;
+}
 
-  if (initialValue instanceof Function) {
-    return initialValue();
-  }
-  return initialValue;
+function readState<T,>(key: string, initialValue: T | (() => T)): StoredState<T> {
+  const read = readStoredValue<T>(key, getStorageSchema<T>(key));
+  if (read.status === 'loaded') return { key, value: read.value, isLoaded: true };
+  return { key, value: getInitialValue(initialValue), isLoaded: read.status === 'missing' };
 }
 
 // Fix: Use Dispatch and SetStateAction types directly, as the React namespace was not imported.
-export function useLocalStorage<T,>(key: string, initialValue: T | (() => T)): [T, Dispatch<SetStateAction<T>>] {
-  const [value, setValue] = useState<T>(() => {
-    return getValue(key, initialValue);
-  });
+// Values are versioned and validated by their storage schema, kept in sync with other open tabs,
+// and moved to IndexedDB when localStorage is full.
+// Values that change on every keystroke can pass a write delay so storage is only written once typing pauses.
+export function useLocalStorage<T,>(key: string, initialValue: T | (() => T), writeDelayMs = 0): [T, Dispatch<SetStateAction<T>>] {
+  // The key is kept next to the value so a key change (e.g. switching leagues) re-reads storage
+  // instead of writing the previous key's value under the new one.
+  const [state, setState] = useState<StoredState<T>>(() => readState(key, initialValue));
+  let current = state;
+  if (state.key !== key) {
+    current = readState(key, initialValue);
+    setState(current);
+  }
+
+  // What storage is known to hold by key, so values that came from another tab aren't written straight back.
+  const storedJsonRef = useRef(new Map<string, string>());
+
+  const setValue = useCallback<Dispatch<SetStateAction<T>>>((action) => {
+    setState((prev: StoredState<T>) => ({
+      key: prev.key,
+      value: action instanceof Function ? action(prev.value) : action,
+      isLoaded: true,
+    }));
+  }, []);
+
+  const saveValue = useCallback((key: string, value: T) => {
+    const json = JSON.stringify(value);
+    if (storedJsonRef.current.get(key) === json) return;
+    storedJsonRef.current.set(key, json);
+    writeStoredValue(key, value, getStorageSchema<T>(key));
+  }, []);
 
+  // Values moved to IndexedDB load after the first render.
   useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error('Error setting item to localStorage', error);
+    if (state.isLoaded) return;
+    let isCurrent = true;
+    loadStoredValue<T>(state.key, getStorageSchema<T>(state.key)).then(value => {
+      if (!isCurrent) return;
+      if (value !== undefined) {
+        storedJsonRef.current.set(state.key, JSON.stringify(value));
+      }
+      setState(prev => prev.key === state.key && !prev.isLoaded
+        ? { key: prev.key, value: value ?? prev.value, isLoaded: true }
+        : prev);
+    });
+    return () => { isCurrent = false; };
+  }, [state.key, state.isLoaded]);
+
+  // Another tab saving the same key replaces the value here, so tabs don't overwrite each other.
+  useEffect(() => subscribeToStoredValue<T>(state.key, getStorageSchema<T>(state.key), value => {
+    storedJsonRef.current.set(state.key, JSON.stringify(value));
+    setState(prev => prev.key === state.key ? { key: prev.key, value, isLoaded: true } : prev);
+  }), [state.key]);
+
+  const pendingWriteRef = useRef<{ key: string; value: T } | null>(null);
+  const flushPendingWrite = useCallback(() => {
+    const pending = pendingWriteRef.current;
+    pendingWriteRef.current = null;
+    if (pending) saveValue(pending.key, pending.value);
+  }, [saveValue]);
+
+  useEffect(() => {
+    if (!state.isLoaded) return;
+    if (writeDelayMs <= 0) {
+      saveValue(state.key, state.value);
+      return;
     }
-  }, [key, value]);
+    // A delayed write for the previous key must land before the new key's value replaces it.
+    if (pendingWriteRef.current && pendingWriteRef.current.key !== state.key) {
+      flushPendingWrite();
+    }
+    pendingWriteRef.current = { key: state.key, value: state.value };
+    const timeout = setTimeout(flushPendingWrite, writeDelayMs);
+    return () => clearTimeout(timeout);
+  }, [state, writeDelayMs, saveValue, flushPendingWrite]);
+
+  // A deleted key (e.g. its league was removed) mustn't be re-created by a delayed write that was still waiting.
+  useEffect(() => subscribeToStoredValueRemoval(state.key, () => {
+    storedJsonRef.current.delete(state.key);
+    if (pendingWriteRef.current?.key === state.key) pendingWriteRef.current = null;
+  }), [state.key]);
+
+  // Don't lose a delayed write when the page is closed or the component goes away.
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingWrite);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingWrite);
+      flushPendingWrite();
+    };
+  }, [flushPendingWrite]);
 
-  return [value, setValue];
+  return [current.value, setValue];
 }
@@ -0,0 +1,88 @@
+import { useState, useCallback, useRef } from 'react';
+
+// Older entries are dropped once there are this many to undo.
+const HISTORY_LIMIT = 50;
+// Changes with the same merge key this close together (e.g. dragging a color picker) are undone as one.
+const MERGE_WINDOW_MS = 5000;
+
+interface HistoryEntry<T> {
+  label: string;
+  // The state to go back to: from before the change on the undo stack, from before the undo on the redo stack.
+  snapshot: T;
+  mergeKey?: string;
+  recordedAt: number;
+}
+
+interface HistoryStacks<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+export interface UndoHistory {
+  // Call just before making a change, with a short description of it ("delete team Bench Mob").
+  record: (label: string, mergeKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  // What undo and redo would revert or reapply, or undefined when there's nothing to.
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+// Undo/redo over snapshots of some state. Each change records the state from before it, and undoing
+// swaps the current state onto the redo stack so it can be brought back.
+export function useUndoHistory<T,>(getSnapshot: () => T, restore: (snapshot: T) => void): UndoHistory {
+  const [stacks, setStacks] = useState<HistoryStacks<T>>({ past: [], future: [] });
+  // Several changes in one event have to see each other before React re-renders.
+  const stacksRef = useRef(stacks);
+  // Always the latest render's functions, so snapshots never come from stale state.
+  const getSnapshotRef = useRef(getSnapshot);
+  getSnapshotRef.current = getSnapshot;
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+
+  const update = useCallback((next: HistoryStacks<T>) => {
+    stacksRef.current = next;
+    setStacks(next);
+  }, []);
+
+  const record = useCallback((label: string, mergeKey?: string) => {
+    const { past, future } = stacksRef.current;
+    const now = Date.now();
+    const last = past[past.length - 1];
+    if (mergeKey && future.length === 0 && last?.mergeKey === mergeKey && now - last.recordedAt < MERGE_WINDOW_MS) {
+      // Keep the snapshot from before the first of the merged changes.
+      update({ past: [...past.slice(0, -1), { ...last, recordedAt: now }], future });
+      return;
+    }
+    const entry = { label, snapshot: getSnapshotRef.current(), mergeKey, recordedAt: now };
+    update({ past: [...past, entry].slice(-HISTORY_LIMIT), future: [] });
+  }, [update]);
+
+  const undo = useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    update({ past: past.slice(0, -1), future: [...future, { label: entry.label, snapshot: getSnapshotRef.current(), recordedAt: Date.now() }] });
+    restoreRef.current(entry.snapshot);
+  }, [update]);
+
+  const redo = useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    update({ past: [...past, { label: entry.label, snapshot: getSnapshotRef.current(), recordedAt: Date.now() }], future: future.slice(0, -1) });
+    restoreRef.current(entry.snapshot);
+  }, [update]);
+
+  const clear = useCallback(() => update({ past: [], future: [] }), [update]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    undoLabel: stacks.past[stacks.past.length - 1]?.label,
+    redoLabel: stacks.future[stacks.future.length - 1]?.label,
+  };
+}
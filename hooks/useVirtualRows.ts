@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback, useMemo, useRef, RefObject } from 'react';
+
+// Rows this far above and below the visible area are rendered too, so fast scrolling doesn't show blanks.
+const OVERSCAN_PX = 600;
+// Used until the container has been measured.
+const DEFAULT_VIEWPORT_HEIGHT = 800;
+
+export interface VirtualRows<E extends HTMLElement> {
+  containerRef: RefObject<E>;
+  onScroll?: () => void;
+  // The rendered rows are [start, end).
+  start: number;
+  end: number;
+  // Space to leave above and below the rendered rows so the scrollbar matches the full list.
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+const findFirstRowEndingAfter = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] > position) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+// Renders only the rows of a long list that are near the visible part of its scroll container.
+// Row heights are estimates; the overscan hides small differences from the real heights.
+export function useVirtualRows<E extends HTMLElement>(rowHeights: number[], isEnabled: boolean): VirtualRows<E> {
+  const containerRef = useRef<E>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: DEFAULT_VIEWPORT_HEIGHT });
+
+  // offsets[i] is the top of row i; the last entry is the total height.
+  const offsets = useMemo(() => {
+    const result = [0];
+    for (const height of rowHeights) {
+      result.push(result[result.length - 1] + height);
+    }
+    return result;
+  }, [rowHeights]);
+
+  const handleScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewport(prev => prev.scrollTop === container.scrollTop && prev.height === container.clientHeight
+      ? prev
+      : { scrollTop: container.scrollTop, height: container.clientHeight });
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isEnabled || !container) return;
+    handleScroll();
+    const observer = new ResizeObserver(handleScroll);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [isEnabled, handleScroll]);
+
+  if (!isEnabled || rowHeights.length === 0) {
+    return { containerRef, start: 0, end: rowHeights.length, paddingTop: 0, paddingBottom: 0 };
+  }
+
+  const totalHeight = offsets[offsets.length - 1];
+  const start = findFirstRowEndingAfter(offsets, viewport.scrollTop - OVERSCAN_PX);
+  const end = Math.min(findFirstRowEndingAfter(offsets, viewport.scrollTop + viewport.height + OVERSCAN_PX) + 1, rowHeights.length);
+  return {
+    containerRef,
+    onScroll: handleScroll,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: totalHeight - offsets[end],
+  };
+}
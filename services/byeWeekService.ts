@@ -0,0 +1,109 @@
+import { ByeCalendar, ByeWeekGroup, LeagueSettings, Player } from '../types';
+import { NFL_TEAMS } from '../constants';
+import { MAX_BYE_WEEK } from './parsers/tokens';
+import { buildOptimalLineup } from './rosterService';
+import { normalizeNflTeam } from './stackService';
+
+// More starters than this at one position on bye in the same week is flagged.
+const MAX_STARTERS_SHARING_BYE = 1;
+
+/**
+ * Reads a pasted team-to-bye table. Each line gives one bye week and the teams that have it, so both
+ * "BUF 7" and "Week 7: BUF, LAR, MIA" work.
+ * @param text The pasted table.
+ * @returns The bye week by normalized team code, and the lines that couldn't be read.
+ */
+export function parseByeWeekTable(text: string): { byeWeeks: Record<string, number>; skippedLines: string[] } {
+  const byeWeeks: Record<string, number> = {};
+  const skippedLines: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    const tokens = line.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    // Team codes must be in capitals, like in the schedule, so words like "no" aren't read as teams.
+    const teams = tokens
+      .filter(token => token === token.toUpperCase())
+      .map(token => normalizeNflTeam(token))
+      .filter((team): team is string => team !== undefined && NFL_TEAMS.includes(team));
+    const weeks = tokens.filter(token => /^\d+$/.test(token)).map(token => parseInt(token, 10));
+    if (teams.length === 0 || weeks.length !== 1 || weeks[0] < 1 || weeks[0] > MAX_BYE_WEEK) {
+      skippedLines.push(line.trim());
+      continue;
+    }
+    for (const team of teams) {
+      byeWeeks[team] = weeks[0];
+    }
+  }
+  return { byeWeeks, skippedLines };
+}
+
+/**
+ * Fills in bye weeks from a team table for players whose rankings didn't list one.
+ * @param players The ranked players.
+ * @param byeWeeks The bye week by normalized team code.
+ * @returns The players with bye weeks, or the same array when the table is empty.
+ */
+export function applyByeWeeks(players: Player[], byeWeeks: Record<string, number>): Player[] {
+  if (Object.keys(byeWeeks).length === 0) return players;
+  return players.map(player => {
+    const team = normalizeNflTeam(player.team);
+    return player.bye === undefined && team && byeWeeks[team] !== undefined ? { ...player, bye: byeWeeks[team] } : player;
+  });
+}
+
+/**
+ * Lays a roster out by bye week and flags weeks where the projected starters are hit too hard:
+ * several starters at one position out at once, or every player at a starting position out.
+ * @param roster The team's players.
+ * @param settings The league lineup settings, used to project the starters.
+ * @returns The calendar, sorted by week.
+ */
+export function buildByeCalendar(roster: Player[], settings: LeagueSettings): ByeCalendar {
+  const starters = buildOptimalLineup(roster, settings).starters
+    .map(entry => entry.player)
+    .filter((player): player is Player => player !== undefined);
+  const starterIds = new Set(starters.map(player => player.id));
+
+  const groups = new Map<number, ByeWeekGroup>();
+  for (const player of roster) {
+    if (player.bye === undefined) continue;
+    const group = groups.get(player.bye) ?? { week: player.bye, players: [], starters: [] };
+    group.players.push(player);
+    if (starterIds.has(player.id)) group.starters.push(player);
+    groups.set(player.bye, group);
+  }
+  const weeks = [...groups.values()].sort((a, b) => a.week - b.week);
+
+  const rosterCounts: Record<string, number> = {};
+  for (const player of roster) {
+    const position = player.position.toUpperCase();
+    rosterCounts[position] = (rosterCounts[position] || 0) + 1;
+  }
+
+  const warnings: string[] = [];
+  const conflictWeeks = new Set<number>();
+  for (const group of weeks) {
+    const startersByPosition: Record<string, Player[]> = {};
+    for (const player of group.starters) {
+      const position = player.position.toUpperCase();
+      (startersByPosition[position] ??= []).push(player);
+    }
+    for (const [position, players] of Object.entries<Player[]>(startersByPosition)) {
+      const playersOut = group.players.filter(player => player.position.toUpperCase() === position).length;
+      if (players.length > MAX_STARTERS_SHARING_BYE) {
+        warnings.push(`Week ${group.week}: ${players.length} starting ${position}s on bye (${players.map(player => player.name).join(', ')}).`);
+        conflictWeeks.add(group.week);
+      } else if (playersOut === rosterCounts[position]) {
+        warnings.push(`Week ${group.week}: no ${position} to start; everyone at ${position} is on bye.`);
+        conflictWeeks.add(group.week);
+      }
+    }
+  }
+
+  return {
+    weeks,
+    conflictWeeks: [...conflictWeeks].sort((a, b) => a - b),
+    warnings,
+    missingByes: roster.filter(player => player.bye === undefined),
+  };
+}
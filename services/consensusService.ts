@@ -0,0 +1,78 @@
+import { Player, ConsensusPlayer } from '../types';
+
+export interface ParsedSource {
+  name: string;
+  players: Player[];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function standardDeviation(values: number[], mean: number): number {
+  if (values.length < 2) return 0;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Merges several parsed ranking sources into a single consensus board.
+ * Players are matched across sources by identity. A player missing from a source counts as ranked
+ * just after that source's last player, so one source's high rank can't outweigh the others leaving them out.
+ * @param sources The parsed sources, each with a display name and players with identities assigned.
+ * @returns Players ordered by average rank, with consensus rank and positional rank reassigned.
+ */
+export function buildConsensusRankings(sources: ParsedSource[]): ConsensusPlayer[] {
+  const entries = new Map<string, { player: Player; ranksBySource: Record<string, number | undefined> }>();
+
+  for (const source of sources) {
+    for (const player of source.players) {
+      const key = player.id;
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { player, ranksBySource: {} };
+        entries.set(key, entry);
+      }
+      // Keep the best rank if a source lists the same player twice.
+      const existing = entry.ranksBySource[source.name];
+      entry.ranksBySource[source.name] = existing === undefined ? player.rank : Math.min(existing, player.rank);
+      if (!entry.player.team && player.team) {
+        entry.player = { ...entry.player, team: player.team };
+      }
+    }
+  }
+
+  const unrankedRanks = sources.map(source => source.players.reduce((worst, player) => Math.max(worst, player.rank), 0) + 1);
+
+  const consensus: ConsensusPlayer[] = [];
+  for (const { player, ranksBySource } of entries.values()) {
+    const ranks = Object.values(ranksBySource).filter((r): r is number => r !== undefined);
+    const scoredRanks = sources.map((source, index) => ranksBySource[source.name] ?? unrankedRanks[index]);
+    const averageRank = scoredRanks.reduce((sum, r) => sum + r, 0) / scoredRanks.length;
+    consensus.push({
+      ...player,
+      averageRank,
+      medianRank: median(scoredRanks),
+      bestRank: Math.min(...ranks),
+      worstRank: Math.max(...ranks),
+      stdDev: standardDeviation(scoredRanks, averageRank),
+      sourceCount: ranks.length,
+      ranksBySource,
+    });
+  }
+
+  consensus.sort((a, b) =>
+    a.averageRank - b.averageRank ||
+    a.medianRank - b.medianRank ||
+    b.sourceCount - a.sourceCount
+  );
+
+  const positionCounts: Record<string, number> = {};
+  return consensus.map((player, index) => {
+    const position = player.position.toUpperCase();
+    positionCounts[position] = (positionCounts[position] || 0) + 1;
+    return { ...player, rank: index + 1, positionalRank: positionCounts[position] };
+  });
+}
@@ -0,0 +1,235 @@
+import { Player, PlayerField, ColumnMapping, ParsedLine, ParseResult } from '../types';
+import { parseRankingsFromText } from './geminiService';
+import { extractPositionAndRank, fillPositionalRanks } from './parsers/tokens';
+import { getPlayerId } from './playerIdentityService';
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+// Header spellings seen in exports from common ranking sites, already lowercased with spaces/punctuation removed.
+const HEADER_ALIASES: Record<PlayerField, string[]> = {
+  rank: ['rk', 'rank', 'overall', 'ovr', 'ovrrank', 'overallrank', 'ecr', 'no', '#'],
+  name: ['player', 'playername', 'name', 'playerteam', 'playerteamid', 'fullname'],
+  team: ['team', 'tm', 'nflteam', 'teamabbr', 'pro'],
+  position: ['pos', 'position', 'posrank', 'positionrank'],
+  bye: ['bye', 'byeweek', 'bw'],
+  adp: ['adp', 'avgpick', 'averagedraftposition', 'avgdraftpos'],
+  tier: ['tier', 'tiers', 'tr'],
+};
+
+export const PLAYER_FIELDS: PlayerField[] = ['rank', 'name', 'team', 'position', 'bye', 'adp', 'tier'];
+export const REQUIRED_FIELDS: PlayerField[] = ['name', 'position'];
+
+export interface DelimitedTable {
+  delimiter: string;
+  headers: string[] | null;
+  rows: string[][];
+  // The raw text and 1-based line number of each row, for reporting.
+  lines: string[];
+  lineNumbers: number[];
+}
+
+/**
+ * Splits one delimited line into cells, honoring double-quoted cells that contain the delimiter.
+ * @param line The raw line.
+ * @param delimiter The column delimiter.
+ * @returns The trimmed cell values.
+ */
+export function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z#]/g, '');
+}
+
+/**
+ * Picks the delimiter that splits the sample lines into the most consistent number of columns.
+ * @param lines The non-empty lines of the input.
+ * @returns The delimiter, or null if no delimiter yields at least three columns on most lines.
+ */
+export function detectDelimiter(lines: string[]): string | null {
+  const sample = lines.slice(0, 20);
+  let best: { delimiter: string; score: number } | null = null;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const frequencies = new Map<number, number>();
+    for (const line of sample) {
+      const count = splitDelimitedLine(line, delimiter).length;
+      frequencies.set(count, (frequencies.get(count) || 0) + 1);
+    }
+    const [modeCount, consistentLines] = [...frequencies.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (modeCount < 3 || consistentLines / sample.length < 0.8) continue;
+
+    const score = consistentLines * modeCount;
+    if (!best || score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+  return best?.delimiter ?? null;
+}
+
+/**
+ * Decides whether the first row is a header: it must match known column names
+ * or, failing that, contain no numeric cells while the following row does.
+ */
+function isHeaderRow(firstRow: string[], secondRow: string[] | undefined): boolean {
+  const knownHeaders = new Set(Object.values(HEADER_ALIASES).flat());
+  if (firstRow.some(cell => knownHeaders.has(normalizeHeader(cell)))) return true;
+  const hasNumber = (row: string[]) => row.some(cell => /^\d+(\.\d+)?$/.test(cell));
+  return !hasNumber(firstRow) && !!secondRow && hasNumber(secondRow);
+}
+
+/**
+ * Detects whether the text is a CSV/TSV-style table and splits it into rows.
+ * @param text The raw pasted or uploaded text.
+ * @returns The table, or null if the text doesn't look delimited.
+ */
+export function detectDelimitedTable(text: string): DelimitedTable | null {
+  const numberedLines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, lineNumber: index + 1 }))
+    .filter(({ line }) => line.trim() !== '');
+  if (numberedLines.length < 2) return null;
+
+  const delimiter = detectDelimiter(numberedLines.map(({ line }) => line));
+  if (!delimiter) return null;
+
+  const rows = numberedLines.map(({ line }) => splitDelimitedLine(line, delimiter));
+  const lines = numberedLines.map(({ line }) => line);
+  const lineNumbers = numberedLines.map(({ lineNumber }) => lineNumber);
+  if (isHeaderRow(rows[0], rows[1])) {
+    return { delimiter, headers: rows[0], rows: rows.slice(1), lines: lines.slice(1), lineNumbers: lineNumbers.slice(1) };
+  }
+  return { delimiter, headers: null, rows, lines, lineNumbers };
+}
+
+/**
+ * Guesses which column holds each player field from the header names.
+ * @param headers The header row.
+ * @returns The guessed mapping and whether every required field was matched.
+ */
+export function guessColumnMapping(headers: string[]): { mapping: ColumnMapping; isConfident: boolean } {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  for (const field of PLAYER_FIELDS) {
+    const index = normalized.findIndex((header, i) =>
+      HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(i)
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+  const isConfident = REQUIRED_FIELDS.every(field => mapping[field] !== undefined);
+  return { mapping, isConfident };
+}
+
+/**
+ * Builds the key under which a confirmed column mapping is remembered for tables with the same headers.
+ * @param headers The header row.
+ * @returns A stable signature of the header names.
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const num = parseFloat(value.replace(/[^\d.]/g, ''));
+  return isNaN(num) ? undefined : num;
+}
+
+/**
+ * Converts table rows into players using a column mapping.
+ * Rows without a name or a recognizable position are dropped. When the source has no rank column the
+ * row order is used, and positional ranks are numbered in rank order when the position column doesn't carry them.
+ * @param table The detected table.
+ * @param mapping Which column holds each field.
+ * @returns The parsed players and the outcome of every row.
+ */
+export function parseDelimitedRankings(table: DelimitedTable, mapping: ColumnMapping): ParseResult {
+  const cell = (row: string[], field: PlayerField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : row[index];
+  };
+
+  const players: Player[] = [];
+  const lines: ParsedLine[] = [];
+  table.rows.forEach((row, rowIndex) => {
+    const lineNumber = table.lineNumbers[rowIndex];
+    const text = table.lines[rowIndex];
+    const name = cell(row, 'name')?.trim();
+    const positionInfo = extractPositionAndRank(cell(row, 'position')?.replace(/[^A-Za-z0-9]/g, '') ?? '');
+    if (!name) {
+      lines.push({ lineNumber, text, status: 'skipped', reason: 'The player name column is empty.' });
+      return;
+    }
+    if (!positionInfo) {
+      lines.push({ lineNumber, text, status: 'skipped', reason: 'The position column has no recognizable position.' });
+      return;
+    }
+
+    const rank = parseNumber(cell(row, 'rank'));
+    const team = cell(row, 'team')?.trim().toUpperCase();
+    const player: Player = {
+      id: getPlayerId({ name, position: positionInfo.base, team: team || undefined }),
+      rank: rank !== undefined ? Math.round(rank) : rowIndex + 1,
+      name,
+      position: positionInfo.base,
+      positionalRank: positionInfo.rank,
+      team: team || undefined,
+      bye: parseNumber(cell(row, 'bye')),
+      adp: parseNumber(cell(row, 'adp')),
+      tier: parseNumber(cell(row, 'tier')),
+    };
+    players.push(player);
+    lines.push({
+      lineNumber,
+      text,
+      status: rank === undefined && mapping.rank !== undefined ? 'ambiguous' : 'parsed',
+      reason: rank === undefined && mapping.rank !== undefined ? 'The rank column is empty, so the row order was used.' : undefined,
+      player,
+    });
+  });
+
+  fillPositionalRanks(players);
+  return { players, lines };
+}
+
+/**
+ * Parses rankings text, using the delimited importer when the text is a table with recognizable
+ * headers and the space-delimited parser otherwise. Never prompts for a column mapping.
+ * @param text The raw rankings text.
+ * @returns A promise that resolves to the parsed players and per-line outcomes.
+ */
+export async function parseRankingsWithAutoDetect(text: string): Promise<ParseResult> {
+  const table = detectDelimitedTable(text);
+  if (table?.headers) {
+    const { mapping, isConfident } = guessColumnMapping(table.headers);
+    if (isConfident) {
+      return parseDelimitedRankings(table, mapping);
+    }
+  }
+  return parseRankingsFromText(text);
+}
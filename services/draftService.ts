@@ -0,0 +1,82 @@
+import { DraftSettings, DraftPick } from '../types';
+
+/**
+ * Gets the round (1-based) that an overall pick number falls in.
+ * @param pickNumber The 1-based overall pick number.
+ * @param leagueSize The number of teams in the draft.
+ * @returns The 1-based round number.
+ */
+export function getRoundForPick(pickNumber: number, leagueSize: number): number {
+  return Math.ceil(pickNumber / leagueSize);
+}
+
+/**
+ * Determines which league slot owns an overall pick, honoring snake or linear order.
+ * @param pickNumber The 1-based overall pick number.
+ * @param settings The draft settings.
+ * @returns The 1-based league slot that makes the pick.
+ */
+export function getSlotForPick(pickNumber: number, settings: DraftSettings): number {
+  const { leagueSize, order } = settings;
+  const round = getRoundForPick(pickNumber, leagueSize);
+  const indexInRound = (pickNumber - 1) % leagueSize;
+  const isReversed = order === 'snake' && round % 2 === 0;
+  return isReversed ? leagueSize - indexInRound : indexInRound + 1;
+}
+
+/**
+ * Formats a pick as "round.pick" (e.g. 3.07), the notation used on draft boards.
+ * @param pickNumber The 1-based overall pick number.
+ * @param leagueSize The number of teams in the draft.
+ * @returns The formatted pick label.
+ */
+export function formatPickLabel(pickNumber: number, leagueSize: number): string {
+  const round = getRoundForPick(pickNumber, leagueSize);
+  const pickInRound = ((pickNumber - 1) % leagueSize) + 1;
+  return `${round}.${String(pickInRound).padStart(2, '0')}`;
+}
+
+/**
+ * Counts the picks until a slot is next on the clock.
+ * @param nextPickNumber The overall pick number currently on the clock.
+ * @param slot The league slot to look for.
+ * @param settings The draft settings.
+ * @param slotOnClock Who actually makes the pick on the clock, when it was traded to another slot.
+ * @returns 0 if the slot is on the clock, otherwise the number of picks made before its turn.
+ */
+export function getPicksUntilSlot(nextPickNumber: number, slot: number, settings: DraftSettings, slotOnClock?: number): number {
+  // A slot always picks again within two rounds, so this loop is bounded.
+  for (let offset = 0; offset < settings.leagueSize * 2; offset++) {
+    const owner = offset === 0 && slotOnClock !== undefined ? slotOnClock : getSlotForPick(nextPickNumber + offset, settings);
+    if (owner === slot) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Lays the picks out as a round-by-round board indexed by slot. Each pick sits in the cell of the slot
+ * that owned it in the draft order, even when it was traded and made by another slot.
+ * @param picks The picks made so far, in draft order.
+ * @param settings The draft settings.
+ * @param minRounds The minimum number of rounds to lay out, so the board doesn't start empty.
+ * @returns One array per round, with the pick (and its overall number) owned by each slot, or null.
+ */
+export function buildDraftBoard(
+  picks: DraftPick[],
+  settings: DraftSettings,
+  minRounds = 1
+): ({ pick: DraftPick; pickNumber: number } | null)[][] {
+  const roundsNeeded = Math.max(minRounds, getRoundForPick(picks.length + 1, settings.leagueSize));
+  const board = Array.from({ length: roundsNeeded }, () =>
+    Array<{ pick: DraftPick; pickNumber: number } | null>(settings.leagueSize).fill(null)
+  );
+
+  picks.forEach((pick, index) => {
+    const pickNumber = index + 1;
+    const round = getRoundForPick(pickNumber, settings.leagueSize);
+    board[round - 1][getSlotForPick(pickNumber, settings) - 1] = { pick, pickNumber };
+  });
+  return board;
+}
@@ -0,0 +1,227 @@
+import { BoardImageColumn, BoardImageRow, LeagueSettings, Player } from '../types';
+import { buildOptimalLineup } from './rosterService';
+
+// Headers the CSV importer recognizes, so a downloaded file can be pasted or dropped back in.
+const CSV_HEADERS = ['Rank', 'Player', 'Team', 'Pos', 'Bye', 'ADP', 'Tier'];
+
+const COLUMN_WIDTH = 250;
+const ROW_HEIGHT = 22;
+const TIER_ROW_HEIGHT = 18;
+const COLUMN_GAP = 16;
+const PADDING = 16;
+const TITLE_HEIGHT = 36;
+const HEADER_HEIGHT = 28;
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+// How long a download's object URL is kept, long enough for the browser to start the download.
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+const escapeCsvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeXml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Writes players as CSV, with a header row the rankings importer understands.
+ * @param players The players, in the order to write them.
+ * @param tiers Tiers by player id; players without one fall back to the tier from their source.
+ * @returns The CSV text.
+ */
+export function playersToCsv(players: Player[], tiers?: Map<string, number>): string {
+  const rows = players.map(player => [
+    player.rank,
+    player.name,
+    player.team,
+    `${player.position}${player.positionalRank ?? ''}`,
+    player.bye,
+    player.adp,
+    tiers?.get(player.id) ?? player.tier,
+  ].map(escapeCsvCell).join(','));
+  return [CSV_HEADERS.join(','), ...rows].join('\n');
+}
+
+const describePlayer = (player: Player): string | undefined =>
+  [player.team, player.bye !== undefined ? `Bye ${player.bye}` : undefined].filter(Boolean).join(' · ') || undefined;
+
+/**
+ * Lays out the position board for image export, one column per position.
+ * @param playersByPosition The board's players by position, best first.
+ * @param positions The positions to include, in column order.
+ * @param tiersByPosition Tiers by player id for each position.
+ * @param favorites The favorited player ids.
+ * @param highlightColors Active team colors by player id.
+ * @returns The columns, skipping positions without players.
+ */
+export function buildBoardImageColumns(
+  playersByPosition: Record<string, Player[]>,
+  positions: string[],
+  tiersByPosition: Record<string, Map<string, number>>,
+  favorites: Set<string>,
+  highlightColors: Record<string, string[]>
+): BoardImageColumn[] {
+  return positions
+    .filter(position => (playersByPosition[position] || []).length > 0)
+    .map(position => {
+      const tiers = tiersByPosition[position];
+      let previousTier: number | undefined;
+      const rows = playersByPosition[position].map((player): BoardImageRow => {
+        const tier = tiers?.get(player.id);
+        const startsTier = tier !== undefined && tier !== previousTier;
+        previousTier = tier;
+        return {
+          label: `${player.position}${player.positionalRank ?? ''}`,
+          name: player.name,
+          detail: describePlayer(player),
+          highlightColors: highlightColors[player.id] || [],
+          isFavorite: favorites.has(player.id),
+          tierLabel: startsTier ? `Tier ${tier}` : undefined,
+        };
+      });
+      return { title: position, rows };
+    });
+}
+
+/**
+ * Lays out one team for image export: the projected starting lineup, then the bench.
+ * @param roster The team's players.
+ * @param settings The league lineup settings.
+ * @param color The team's color, used to tint every row.
+ * @returns The starters and bench columns.
+ */
+export function buildTeamImageColumns(roster: Player[], settings: LeagueSettings, color: string): BoardImageColumn[] {
+  const { starters, bench } = buildOptimalLineup(roster, settings);
+  const toRow = (label: string, player: Player | undefined): BoardImageRow => ({
+    label,
+    name: player?.name ?? '(empty)',
+    detail: player && describePlayer(player),
+    highlightColors: player ? [color] : [],
+    isFavorite: false,
+  });
+  return [
+    { title: 'Starters', rows: starters.map(entry => toRow(entry.slot === 'SUPERFLEX' ? 'SFLX' : entry.slot, entry.player)) },
+    { title: 'Bench', rows: bench.map(player => toRow(`${player.position}${player.positionalRank ?? ''}`, player)) },
+  ];
+}
+
+/**
+ * Draws columns of players as a standalone SVG image, with team highlights, favorites and tier breaks.
+ * @param title The heading at the top of the image.
+ * @param columns The columns, left to right.
+ * @returns The SVG markup and its size in pixels.
+ */
+export function buildBoardSvg(title: string, columns: BoardImageColumn[]): { svg: string; width: number; height: number } {
+  const columnHeights = columns.map(column => column.rows.reduce(
+    (height, row) => height + ROW_HEIGHT + (row.tierLabel ? TIER_ROW_HEIGHT : 0),
+    HEADER_HEIGHT
+  ));
+  const width = PADDING * 2 + Math.max(columns.length, 1) * COLUMN_WIDTH + Math.max(columns.length - 1, 0) * COLUMN_GAP;
+  const height = PADDING * 2 + TITLE_HEIGHT + Math.max(0, ...columnHeights);
+  const gradients: string[] = [];
+  const elements: string[] = [];
+
+  elements.push(`<text x="${PADDING}" y="${PADDING + 22}" font-size="20" font-weight="700" fill="#67e8f9">${escapeXml(title)}</text>`);
+
+  columns.forEach((column, columnIndex) => {
+    const x = PADDING + columnIndex * (COLUMN_WIDTH + COLUMN_GAP);
+    let y = PADDING + TITLE_HEIGHT;
+    elements.push(`<rect x="${x}" y="${y}" width="${COLUMN_WIDTH}" height="${HEADER_HEIGHT}" fill="#1f2937"/>`);
+    elements.push(`<text x="${x + 8}" y="${y + 19}" font-size="14" font-weight="700" fill="#e5e7eb">${escapeXml(column.title)}</text>`);
+    y += HEADER_HEIGHT;
+
+    for (const row of column.rows) {
+      if (row.tierLabel) {
+        elements.push(`<rect x="${x}" y="${y}" width="${COLUMN_WIDTH}" height="${TIER_ROW_HEIGHT}" fill="#111827"/>`);
+        elements.push(`<text x="${x + 8}" y="${y + 13}" font-size="10" font-weight="700" fill="#67e8f9">${escapeXml(row.tierLabel.toUpperCase())}</text>`);
+        y += TIER_ROW_HEIGHT;
+      }
+
+      // Same look as the live tables: one team tints the row, several blend left to right.
+      let fill = row.isFavorite ? '#713f1266' : '#374151';
+      if (row.highlightColors.length === 1) {
+        fill = `${row.highlightColors[0]}66`;
+      } else if (row.highlightColors.length > 1) {
+        const gradientId = `highlight-${gradients.length}`;
+        const stops = row.highlightColors.map((color, index) =>
+          `<stop offset="${index / (row.highlightColors.length - 1)}" stop-color="${color}" stop-opacity="0.6"/>`
+        ).join('');
+        gradients.push(`<linearGradient id="${gradientId}">${stops}</linearGradient>`);
+        fill = `url(#${gradientId})`;
+      }
+      elements.push(`<rect x="${x}" y="${y}" width="${COLUMN_WIDTH}" height="${ROW_HEIGHT}" fill="#374151"/>`);
+      elements.push(`<rect x="${x}" y="${y}" width="${COLUMN_WIDTH}" height="${ROW_HEIGHT}" fill="${fill}" stroke="#4b5563" stroke-width="0.5"/>`);
+      elements.push(`<text x="${x + 8}" y="${y + 15}" font-size="11" fill="#9ca3af">${escapeXml(row.label)}</text>`);
+      elements.push(
+        `<text x="${x + 48}" y="${y + 15}" font-size="12" font-weight="${row.isFavorite ? 700 : 500}" fill="${row.isFavorite ? '#facc15' : '#f3f4f6'}">` +
+        `${row.isFavorite ? '★ ' : ''}${escapeXml(row.name)}` +
+        (row.detail ? `<tspan font-size="10" font-weight="400" fill="#9ca3af"> ${escapeXml(row.detail)}</tspan>` : '') +
+        '</text>'
+      );
+      y += ROW_HEIGHT;
+    }
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    gradients.length > 0 ? `<defs>${gradients.join('')}</defs>` : '',
+    `<rect width="100%" height="100%" fill="#111827"/>`,
+    ...elements,
+    '</svg>',
+  ].join('');
+  return { svg, width, height };
+}
+
+/**
+ * Rasterizes an SVG image to PNG in the browser.
+ * @param svg The SVG markup.
+ * @param width The image width in pixels.
+ * @param height The image height in pixels.
+ * @param scale How many device pixels to draw per image pixel, for sharper output.
+ * @returns A promise that resolves to the PNG data.
+ */
+export function svgToPngBlob(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('The image could not be drawn.'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image could not be drawn.')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be drawn.'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Saves data to the user's downloads.
+ * @param data The file contents.
+ * @param fileName The suggested file name.
+ */
+export function downloadBlob(data: Blob, fileName: string): void {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight after the click can cancel the download in some browsers (e.g. Firefox).
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+}
@@ -0,0 +1,49 @@
+import { ExposureReport, FantasyTeam, GroupExposure, Player, PlayerExposure } from '../types';
+import { normalizeNflTeam } from './stackService';
+
+// Players without an NFL team in the rankings are grouped under this key.
+export const UNKNOWN_NFL_TEAM = 'N/A';
+
+const groupExposure = (rosteredPlayers: Player[], getKey: (player: Player) => string): GroupExposure[] => {
+  const counts = new Map<string, number>();
+  for (const player of rosteredPlayers) {
+    const key = getKey(player);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count, share: count / rosteredPlayers.length }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+};
+
+/**
+ * Measures how often players, positions and NFL teams appear across the saved teams.
+ * @param teams The saved teams.
+ * @param teamRosters Each team's players that were found in the current rankings, by team name.
+ * @returns Player exposure as a share of teams, most exposed first, and position and NFL team
+ * exposure as a share of all rostered players.
+ */
+export function buildExposureReport(teams: FantasyTeam[], teamRosters: Record<string, Player[]>): ExposureReport {
+  const byPlayer = new Map<string, PlayerExposure>();
+  const rosteredPlayers: Player[] = [];
+
+  for (const team of teams) {
+    for (const player of teamRosters[team.name] || []) {
+      rosteredPlayers.push(player);
+      const exposure = byPlayer.get(player.id) ?? { player, teamNames: [], share: 0 };
+      exposure.teamNames.push(team.name);
+      byPlayer.set(player.id, exposure);
+    }
+  }
+
+  const players = [...byPlayer.values()]
+    .map(exposure => ({ ...exposure, share: exposure.teamNames.length / teams.length }))
+    .sort((a, b) => b.teamNames.length - a.teamNames.length || a.player.rank - b.player.rank);
+
+  return {
+    teamCount: teams.length,
+    pickCount: rosteredPlayers.length,
+    players,
+    positions: groupExposure(rosteredPlayers, player => player.position.toUpperCase()),
+    nflTeams: groupExposure(rosteredPlayers, player => normalizeNflTeam(player.team) ?? UNKNOWN_NFL_TEAM),
+  };
+}
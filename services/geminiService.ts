@@ -1,112 +1,85 @@
-import { Player } from '../types';
+import { ParseResult } from '../types';
+import { AUTO_DETECT_PARSER_ID, parseWithParser } from './parsers';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parseWorker';
 
-// A list of base positions to check for.
-const BASE_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DST', 'DEF'];
-
-/**
- * Checks if a string part is a valid team abbreviation (2-4 uppercase letters).
- * @param part The string part to analyze.
- * @returns True if the part is a team abbreviation.
- */
-function isTeam(part: string): boolean {
-    if (!part) return false;
-    // Simple regex for 2-4 uppercase letters, common for team abbreviations.
-    return /^[A-Z]{2,3}$/.test(part);
+interface PendingParse {
+  request: ParseWorkerRequest;
+  resolve: (result: ParseResult) => void;
+  reject: (error: Error) => void;
 }
 
-/**
- * Extracts a base position and rank from a string part (e.g., "QB1" -> {base: "QB", rank: 1}).
- * @param part The string part to analyze.
- * @returns An object with the base position and rank, or null if not a valid position.
- */
-function extractPositionAndRank(part: string): { base: string; rank?: number } | null {
-  if (!part) return null;
-  const upperPart = part.toUpperCase();
+const PARSE_ERROR_MESSAGE = "Failed to parse rankings from text. Please check the format.";
+
+// Created on first use; null once the worker has failed, after which parsing stays on the main thread.
+let parseWorker: Worker | null | undefined;
+let nextRequestId = 1;
+const pendingParses = new Map<number, PendingParse>();
 
-  for (const pos of BASE_POSITIONS) {
-    if (upperPart.startsWith(pos)) {
-      const rest = upperPart.substring(pos.length);
-      if (/^\d*$/.test(rest)) { // Checks if the rest is empty or numeric
-        const rank = parseInt(rest, 10);
-        return {
-          base: pos === 'DEF' ? 'DST' : pos, // Normalize DEF to DST
-          rank: !isNaN(rank) ? rank : undefined,
-        };
+const parseOnMainThread = (text: string, parserId: string): ParseResult => {
+  try {
+    return parseWithParser(text, parserId);
+  } catch (error) {
+    console.error("Error during local text parsing:", error);
+    throw new Error(PARSE_ERROR_MESSAGE);
+  }
+};
+
+const getParseWorker = (): Worker | null => {
+  if (parseWorker !== undefined) return parseWorker;
+  if (typeof Worker === 'undefined') {
+    parseWorker = null;
+    return parseWorker;
+  }
+  try {
+    const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const pending = pendingParses.get(event.data.requestId);
+      if (!pending) return;
+      pendingParses.delete(event.data.requestId);
+      if ('result' in event.data) {
+        pending.resolve(event.data.result);
+      } else {
+        console.error("Error during local text parsing:", event.data.error);
+        pending.reject(new Error(PARSE_ERROR_MESSAGE));
       }
-    }
+    };
+    // A worker that can't load or crashes hands its queued parses back to the main thread.
+    worker.onerror = (event: ErrorEvent) => {
+      console.error('Rankings parse worker failed; parsing on the main thread instead.', event.message);
+      worker.terminate();
+      parseWorker = null;
+      const stranded = [...pendingParses.values()];
+      pendingParses.clear();
+      for (const { request, resolve, reject } of stranded) {
+        try {
+          resolve(parseOnMainThread(request.text, request.parserId));
+        } catch (error) {
+          reject(error as Error);
+        }
+      }
+    };
+    parseWorker = worker;
+  } catch (error) {
+    console.error('Rankings parse worker is unavailable; parsing on the main thread instead.', error);
+    parseWorker = null;
   }
-  return null;
-}
+  return parseWorker;
+};
 
 /**
- * Parses fantasy football rankings from a space-delimited text block.
- * This version supports multiple formats and extracts team and positional rank info.
+ * Parses fantasy football rankings from pasted text with one of the registered parsers.
+ * By default every parser is tried and the one that reads the text best is used.
+ * Parsing runs in a web worker when the browser allows it, and on the main thread otherwise.
  * @param text The raw string containing the rankings.
- * @returns A promise that resolves to an array of Player objects.
+ * @param parserId The parser to use, or the auto-detect id to pick one.
+ * @returns A promise that resolves to the parsed players and the outcome of every non-empty line.
  */
-export const parseRankingsFromText = async (text: string): Promise<Player[]> => {
+export const parseRankingsFromText = async (text: string, parserId: string = AUTO_DETECT_PARSER_ID): Promise<ParseResult> => {
+  const worker = getParseWorker();
+  if (!worker) return parseOnMainThread(text, parserId);
   return new Promise((resolve, reject) => {
-    try {
-      const players: Player[] = [];
-      const lines = text.split('\n').filter(line => line.trim() !== '');
-
-      for (const line of lines) {
-        const tabsReplaced = line.replace(/\t/g, ' ');
-        const cleanLine = tabsReplaced.split(/ vs | @ /)[0];
-        const parts = cleanLine.trim().split(/\s+/);
-
-        if (parts.length < 2) continue;
-        console.log(parts);
-        const rankStr = parts[0].replace(/[.\)]$/, '');
-        const rank = parseInt(rankStr, 10);
-        if (isNaN(rank)) continue;
-
-        const potentialNameParts = parts.slice(1);
-        if (potentialNameParts.length === 0) continue;
-
-        let positionInfo: { base: string; rank?: number } | null = null;
-        let teamInfo: string | null = null;
-        let nameEndIndex = potentialNameParts.length;
-
-        const p1 = potentialNameParts[nameEndIndex - 1];
-        const p2 = nameEndIndex > 1 ? potentialNameParts[nameEndIndex - 2] : null;
-
-        const p1_pos = extractPositionAndRank(p1);
-        const p1_team = isTeam(p1);
-        const p2_pos = p2 ? extractPositionAndRank(p2) : null;
-        const p2_team = p2 ? isTeam(p2) : null;
-
-        if (p1_pos) { // Case: "... Team Pos" or "... Pos"
-          positionInfo = p1_pos;
-          if (p2_team) {
-            teamInfo = p2!.toUpperCase();
-            nameEndIndex -= 2;
-          } else {
-            nameEndIndex -= 1;
-          }
-        } else if (p1_team) { // Case: "... Pos Team"
-          teamInfo = p1.toUpperCase();
-          if (p2_pos) {
-            positionInfo = p2_pos;
-            nameEndIndex -= 2;
-          }
-        }
-
-        if (positionInfo && nameEndIndex > 0) {
-          const name = potentialNameParts.slice(0, nameEndIndex).join(' ');
-          players.push({
-            rank,
-            name,
-            position: positionInfo.base,
-            positionalRank: positionInfo.rank,
-            team: teamInfo ?? undefined,
-          });
-        }
-      }
-      resolve(players);
-    } catch (error) {
-      console.error("Error during local text parsing:", error);
-      reject(new Error("Failed to parse rankings from text. Please check the format."));
-    }
+    const request: ParseWorkerRequest = { requestId: nextRequestId++, text, parserId };
+    pendingParses.set(request.requestId, { request, resolve, reject });
+    worker.postMessage(request);
   });
-};
\ No newline at end of file
+};
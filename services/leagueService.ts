@@ -0,0 +1,71 @@
+import { League } from '../types';
+import { loadStoredValue, removeStoredValue } from './persistedStore';
+import { getStorageSchema } from './storageSchemas';
+
+// The first league keeps the original un-suffixed storage keys, so data saved before leagues existed becomes its data.
+export const DEFAULT_LEAGUE_ID = 'default';
+
+export const DEFAULT_LEAGUES: League[] = [{ id: DEFAULT_LEAGUE_ID, name: 'My League' }];
+
+// Storage keys that hold one league's data. Aliases, column mappings, tags, notes and display
+// preferences describe players or the user rather than a league, so they stay shared.
+export const LEAGUE_STORAGE_KEYS = [
+  'fantasyRankingsText',
+  'fantasyRankingsParser',
+  'fantasyRankingSources',
+  'fantasyFavorites',
+  'fantasyTeams',
+  'activeFantasyTeams',
+  'fantasyDraftMode',
+  'fantasyDraftSettings',
+  'fantasyDraftPicks',
+  'fantasyMockDraftSettings',
+  'fantasyTierSensitivity',
+  'fantasyTierBreaks',
+  'fantasyRankingSnapshots',
+  'fantasyTrendBaseline',
+  'fantasyLeagueSettings',
+  'fantasyRankOverrides',
+  'fantasyExposureThresholds',
+];
+
+/**
+ * Builds the storage key for one league's copy of a setting.
+ * @param leagueId The league.
+ * @param key The base storage key.
+ * @returns The league's storage key.
+ */
+export function getLeagueStorageKey(leagueId: string, key: string): string {
+  return leagueId === DEFAULT_LEAGUE_ID ? key : `${key}:${leagueId}`;
+}
+
+/**
+ * Creates a league with a unique id.
+ * @param name The league name.
+ * @returns The new league.
+ */
+export function createLeague(name: string): League {
+  return { id: `${Date.now()}`, name };
+}
+
+/**
+ * Removes everything stored for a league.
+ * @param leagueId The deleted league.
+ */
+export function deleteLeagueStorage(leagueId: string): void {
+  for (const key of LEAGUE_STORAGE_KEYS) {
+    removeStoredValue(getLeagueStorageKey(leagueId, key));
+  }
+}
+
+/**
+ * Reads one value another league has saved, e.g. to copy its rankings into the active league.
+ * @param leagueId The league to read from.
+ * @param key The base storage key.
+ * @param fallback The value to use when the league never saved the key or it can't be read.
+ * @returns A promise that resolves to the stored value, which may have to be loaded from IndexedDB.
+ */
+export async function readLeagueValue<T,>(leagueId: string, key: string, fallback: T): Promise<T> {
+  const storageKey = getLeagueStorageKey(leagueId, key);
+  return (await loadStoredValue<T>(storageKey, getStorageSchema<T>(storageKey))) ?? fallback;
+}
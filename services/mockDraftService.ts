@@ -0,0 +1,197 @@
+import { DraftPick, LeagueSettings, LineupSlot, MockDraftSettings, MockDraftSummary, Player } from '../types';
+import { FLEX_POSITIONS, POSITIONS_TO_DISPLAY, SUPERFLEX_POSITIONS } from '../constants';
+import { getSlotForPick } from './draftService';
+import { buildOptimalLineup, getStarterCount } from './rosterService';
+
+// At full randomness a computer team may reach this many ranks past the best available player.
+const MAX_REACH_RANKS = 12;
+// A player who fills an empty starting slot is treated as this many ranks better.
+const NEED_BONUS_RANKS = 8;
+// Computer teams wait on these until the remaining picks are needed to fill them.
+const LATE_POSITIONS = ['K', 'DST'];
+
+const getEligiblePositions = (slot: LineupSlot): string[] => {
+  if (slot === 'FLEX') return FLEX_POSITIONS;
+  if (slot === 'SUPERFLEX') return SUPERFLEX_POSITIONS;
+  return [slot];
+};
+
+// The most players a computer team rosters at a position; undefined means no limit.
+const getPositionLimit = (position: string, settings: LeagueSettings): number | undefined => {
+  switch (position) {
+    case 'QB': return settings.qb + settings.superflex + 1;
+    case 'TE': return settings.te + 1;
+    case 'K': return settings.k;
+    case 'DST': return settings.dst;
+    default: return undefined;
+  }
+};
+
+/**
+ * Gets the number of rounds in a mock draft: one pick for every starting and bench spot.
+ * @param settings The league lineup settings.
+ * @returns The number of rounds.
+ */
+export function getMockDraftRounds(settings: LeagueSettings): number {
+  return getStarterCount(settings) + settings.bench;
+}
+
+/**
+ * Chooses a computer team's pick. Players are scored by rank, with a bonus for filling an empty
+ * starting slot and random noise scaled by the randomness setting; the lowest score is taken.
+ * Positions the team has enough of are skipped, kickers and defenses wait for the last rounds,
+ * and once the remaining picks are all needed for empty starting slots only those positions are considered.
+ * @param available The undrafted players, best rank first.
+ * @param roster The team's picks so far.
+ * @param settings The league lineup settings.
+ * @param picksLeft The team's remaining picks, including this one.
+ * @param randomness From 0 (always the best fit by rank) to 1.
+ * @param random The random number source, in [0, 1).
+ * @returns The chosen player, or undefined when no players are left.
+ */
+export function pickForComputer(
+  available: Player[],
+  roster: Player[],
+  settings: LeagueSettings,
+  picksLeft: number,
+  randomness: number,
+  random: () => number = Math.random
+): Player | undefined {
+  const openSlots = buildOptimalLineup(roster, settings).starters
+    .filter(entry => !entry.player)
+    .map(entry => getEligiblePositions(entry.slot));
+  const lateNeeds = openSlots.filter(positions => positions.every(position => LATE_POSITIONS.includes(position))).length;
+  const positionCounts: Record<string, number> = {};
+  for (const player of roster) {
+    const position = player.position.toUpperCase();
+    positionCounts[position] = (positionCounts[position] || 0) + 1;
+  }
+  const fillsOpenSlot = (position: string) => openSlots.some(positions => positions.includes(position));
+
+  const isEligible = (player: Player) => {
+    const position = player.position.toUpperCase();
+    const limit = getPositionLimit(position, settings);
+    if (limit !== undefined && (positionCounts[position] || 0) >= limit) return false;
+    if (LATE_POSITIONS.includes(position) && picksLeft > lateNeeds) return false;
+    return picksLeft > openSlots.length || fillsOpenSlot(position);
+  };
+
+  const candidates = available.filter(isEligible);
+  const pool = candidates.length > 0 ? candidates : available;
+  if (pool.length === 0) return undefined;
+
+  const reach = MAX_REACH_RANKS * Math.min(Math.max(randomness, 0), 1);
+  const cutoff = pool[0].rank + reach + NEED_BONUS_RANKS;
+  let best: { player: Player; score: number } | undefined;
+  for (const player of pool) {
+    if (player.rank > cutoff) break;
+    const score = player.rank - (fillsOpenSlot(player.position.toUpperCase()) ? NEED_BONUS_RANKS : 0) - random() * reach;
+    if (!best || score < best.score) {
+      best = { player, score };
+    }
+  }
+  return best?.player ?? pool[0];
+}
+
+// Every team fills every round, unless the board runs out of players first.
+const getTotalPicks = (playerCount: number, settings: MockDraftSettings, leagueSettings: LeagueSettings): number =>
+  Math.min(getMockDraftRounds(leagueSettings) * settings.leagueSize, playerCount);
+
+/**
+ * Makes computer picks until the user is on the clock or the draft is over.
+ * @param picks The picks made so far, in draft order.
+ * @param players The opponents' board.
+ * @param settings The mock draft settings.
+ * @param leagueSettings The league lineup settings, which set the rounds and positional needs.
+ * @param random The random number source, in [0, 1).
+ * @returns The picks with the computer picks added.
+ */
+export function simulateMockDraft(
+  picks: DraftPick[],
+  players: Player[],
+  settings: MockDraftSettings,
+  leagueSettings: LeagueSettings,
+  random: () => number = Math.random
+): DraftPick[] {
+  const rounds = getMockDraftRounds(leagueSettings);
+  const totalPicks = getTotalPicks(players.length, settings, leagueSettings);
+  const sorted = [...players].sort((a, b) => a.rank - b.rank);
+  const playersById = new Map(sorted.map(player => [player.id, player]));
+  const draftedIds = new Set(picks.map(pick => pick.playerId));
+  const next = [...picks];
+
+  while (next.length < totalPicks) {
+    const slot = getSlotForPick(next.length + 1, settings);
+    if (slot === settings.mySlot) break;
+    const teamPicks = next.filter(pick => pick.slot === slot);
+    const roster = teamPicks.map(pick => playersById.get(pick.playerId)).filter((player): player is Player => player !== undefined);
+    const available = sorted.filter(player => !draftedIds.has(player.id));
+    const player = pickForComputer(available, roster, leagueSettings, rounds - teamPicks.length, settings.randomness, random);
+    if (!player) break;
+    next.push({ slot, playerId: player.id, playerName: player.name });
+    draftedIds.add(player.id);
+  }
+  return next;
+}
+
+/**
+ * Checks whether every pick of a mock draft has been made, or every player on the board has been drafted.
+ * @param picks The picks made so far.
+ * @param playerCount How many players are on the board.
+ * @param settings The mock draft settings.
+ * @param leagueSettings The league lineup settings.
+ * @returns True when the draft is over.
+ */
+export function isMockDraftComplete(picks: DraftPick[], playerCount: number, settings: MockDraftSettings, leagueSettings: LeagueSettings): boolean {
+  return picks.length >= getTotalPicks(playerCount, settings, leagueSettings);
+}
+
+/**
+ * Compares the user's mock draft roster with the rest of the league.
+ * @param picks The mock draft picks.
+ * @param players The drafted players' rankings.
+ * @param settings The mock draft settings.
+ * @param leagueSettings The league lineup settings.
+ * @param values Player values by id.
+ * @returns Every team's roster and value, the user's standing by starter value, and the user's
+ * starter value at each position next to the league average.
+ */
+export function summarizeMockDraft(
+  picks: DraftPick[],
+  players: Player[],
+  settings: MockDraftSettings,
+  leagueSettings: LeagueSettings,
+  values: Map<string, number>
+): MockDraftSummary {
+  const playersById = new Map(players.map(player => [player.id, player]));
+  const sumValues = (roster: Player[]) => roster.reduce((total, player) => total + (values.get(player.id) ?? 0), 0);
+
+  const lineups = Array.from({ length: settings.leagueSize }, (_, index) => {
+    const slot = index + 1;
+    const roster = picks
+      .filter(pick => pick.slot === slot)
+      .map(pick => playersById.get(pick.playerId))
+      .filter((player): player is Player => player !== undefined);
+    const starters = buildOptimalLineup(roster, leagueSettings).starters
+      .map(entry => entry.player)
+      .filter((player): player is Player => player !== undefined);
+    return { team: { slot, roster, starterValue: sumValues(starters), rosterValue: sumValues(roster) }, starters };
+  });
+
+  const teams = lineups.map(lineup => lineup.team);
+  const myIndex = teams.findIndex(team => team.slot === settings.mySlot);
+  const myRank = 1 + teams.filter(team => team.starterValue > teams[myIndex].starterValue).length;
+
+  const positions = POSITIONS_TO_DISPLAY
+    .map(position => {
+      const valuesAt = lineups.map(lineup => sumValues(lineup.starters.filter(player => player.position.toUpperCase() === position)));
+      return {
+        position,
+        mine: valuesAt[myIndex],
+        average: valuesAt.reduce((total, value) => total + value, 0) / valuesAt.length,
+      };
+    })
+    .filter(({ mine, average }) => mine !== 0 || average !== 0);
+
+  return { teams, myRank, positions };
+}
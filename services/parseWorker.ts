@@ -0,0 +1,24 @@
+import { ParseResult } from '../types';
+import { parseWithParser } from './parsers';
+
+export interface ParseWorkerRequest {
+  requestId: number;
+  text: string;
+  parserId: string;
+}
+
+export type ParseWorkerResponse =
+  | { requestId: number; result: ParseResult }
+  | { requestId: number; error: string };
+
+// Runs the rankings parsers off the main thread so large lists don't block typing.
+self.onmessage = (event: MessageEvent<ParseWorkerRequest>) => {
+  const { requestId, text, parserId } = event.data;
+  let response: ParseWorkerResponse;
+  try {
+    response = { requestId, result: parseWithParser(text, parserId) };
+  } catch (error) {
+    response = { requestId, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,68 @@
+import { ParseResult, ParserScore, RankingsParser } from '../../types';
+import { spaceDelimitedParser } from './spaceDelimited';
+import { trailingColumnsParser } from './trailingColumns';
+import { nameTeamPositionParser } from './nameTeamPosition';
+import { twoLineParser } from './twoLine';
+
+export const AUTO_DETECT_PARSER_ID = 'auto';
+
+// Every copy-paste layout the app understands. To support a new one, add a module to this
+// folder and list it here; on a tie in detection, the parser listed first wins.
+export const RANKINGS_PARSERS: RankingsParser[] = [
+  spaceDelimitedParser,
+  trailingColumnsParser,
+  nameTeamPositionParser,
+  twoLineParser,
+];
+
+/**
+ * Finds a registered parser by id.
+ * @param parserId The parser id.
+ * @returns The parser, or undefined when no parser has that id.
+ */
+export function getParser(parserId: string): RankingsParser | undefined {
+  return RANKINGS_PARSERS.find(parser => parser.id === parserId);
+}
+
+/**
+ * Scores how well a parser read some text: the share of non-empty lines it understood,
+ * counting lines it had to guess at as half. Lines read as part of a player on another line
+ * are left out, so formats that spread a player over several lines don't score higher.
+ * @param result The parser's result.
+ * @returns A score from 0 to 1.
+ */
+export function scoreParseResult(result: ParseResult): number {
+  const lines = result.lines.filter(line => !line.isContinuation);
+  if (lines.length === 0) return 0;
+  const understood = lines.reduce((total, line) => total + (line.status === 'parsed' ? 1 : line.status === 'ambiguous' ? 0.5 : 0), 0);
+  return understood / lines.length;
+}
+
+/**
+ * Runs every registered parser on the text and picks the one that reads it best.
+ * @param text The raw rankings text.
+ * @returns The best parser's result and every parser's score, best first.
+ */
+export function detectParser(text: string): { result: ParseResult; scores: ParserScore[] } {
+  const attempts = RANKINGS_PARSERS.map(parser => {
+    const result = parser.parse(text);
+    return { result, score: scoreParseResult(result) };
+  });
+  // Sorting is stable, so equally good parsers keep their registry order.
+  const ranked = [...attempts].sort((a, b) => b.score - a.score || b.result.players.length - a.result.players.length);
+  return {
+    result: ranked[0].result,
+    scores: ranked.map(attempt => ({ parserId: attempt.result.parserId!, score: attempt.score })),
+  };
+}
+
+/**
+ * Parses rankings text with a registered parser, or with whichever reads it best.
+ * @param text The raw rankings text.
+ * @param parserId The parser to use, or the auto-detect id to pick one.
+ * @returns The parsed players and the outcome of every non-empty line.
+ */
+export function parseWithParser(text: string, parserId: string): ParseResult {
+  const parser = getParser(parserId);
+  return parser ? parser.parse(text) : detectParser(text).result;
+}
@@ -0,0 +1,78 @@
+import { ParsedLine, Player, RankingsParser } from '../../types';
+import { getPlayerId } from '../playerIdentityService';
+import { extractByeWeek, extractPositionAndRank, fillPositionalRanks, getNonEmptyLines, getUnknownTeamReason, isTeam, skipLine } from './tokens';
+
+// An optional rank, the name, then team and position in parentheses, e.g. "3. McCaffrey, Christian (SF - RB)".
+const LINE_PATTERN = /^\s*(?:(\d+)[.)]?\s+)?([^()]+?)\s*\(([^)]*)\)/;
+
+/**
+ * Reads the team and position from the parenthesized part of a line, in either order.
+ * @param details The text inside the parentheses, e.g. "SF - RB" or "RB, SF".
+ * @returns The position and team, or null when no position is found.
+ */
+function parseDetails(details: string): { position: { base: string; rank?: number }; team?: string } | null {
+  const parts = details.split(/[\s,\-–/]+/).filter(Boolean).map(part => part.toUpperCase());
+  let position: { base: string; rank?: number } | null = null;
+  let team: string | undefined;
+  for (const part of parts) {
+    const positionInfo = extractPositionAndRank(part);
+    if (positionInfo && !position) {
+      position = positionInfo;
+    } else if (isTeam(part) && !team) {
+      team = part;
+    }
+  }
+  return position ? { position, team } : null;
+}
+
+/**
+ * Parses a "Name (Team - Pos)" line, turning "Last, First" names around.
+ * @param line The raw line.
+ * @param lineNumber The 1-based line number in the pasted text.
+ * @param fallbackRank The rank to use when the line has none, i.e. its order in the list.
+ * @returns The outcome for the line.
+ */
+function parseNameTeamPositionLine(line: string, lineNumber: number, fallbackRank: number): ParsedLine {
+  const { text, bye } = extractByeWeek(line);
+  const match = text.match(LINE_PATTERN);
+  if (!match) return skipLine(line, lineNumber, 'No "(Team - Pos)" after the player name.');
+  const [, rankText, rawName, details] = match;
+
+  const info = parseDetails(details);
+  if (!info) return skipLine(line, lineNumber, 'No position (QB, RB, WR, TE, K, DST) inside the parentheses.');
+
+  const commaIndex = rawName.indexOf(',');
+  const name = commaIndex === -1
+    ? rawName.trim()
+    : `${rawName.slice(commaIndex + 1).trim()} ${rawName.slice(0, commaIndex).trim()}`.trim();
+  if (!name) return skipLine(line, lineNumber, 'No player name found before the parentheses.');
+
+  const ambiguity = info.team ? getUnknownTeamReason(info.team) : undefined;
+  const player: Player = {
+    id: getPlayerId({ name, position: info.position.base, team: info.team }),
+    rank: rankText ? parseInt(rankText, 10) : fallbackRank,
+    name,
+    position: info.position.base,
+    positionalRank: info.position.rank,
+    team: info.team,
+    bye,
+  };
+  return { lineNumber, text: line, status: ambiguity ? 'ambiguous' : 'parsed', reason: ambiguity, player };
+}
+
+export const nameTeamPositionParser: RankingsParser = {
+  id: 'name-team-position',
+  name: 'Last, First (Team - Pos)',
+  example: 'McCaffrey, Christian (SF - RB)',
+  parse: (text) => {
+    const lines: ParsedLine[] = [];
+    for (const line of getNonEmptyLines(text)) {
+      // Lists without ranks are ranked by their order.
+      const parsedSoFar = lines.filter(parsed => parsed.player).length;
+      lines.push(parseNameTeamPositionLine(line.text, line.lineNumber, parsedSoFar + 1));
+    }
+    const players = lines.filter(line => line.player).map(line => line.player!);
+    fillPositionalRanks(players);
+    return { players, lines, parserId: 'name-team-position' };
+  },
+};
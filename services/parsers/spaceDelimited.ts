@@ -0,0 +1,99 @@
+import { ParsedLine, RankingsParser } from '../../types';
+import { getPlayerId } from '../playerIdentityService';
+import { cleanToken, extractByeWeek, extractPositionAndRank, getNonEmptyLines, isKnownTeam, isTeam, NAME_SUFFIXES } from './tokens';
+
+/**
+ * Parses a single rankings line into a player, describing why it was skipped or what was guessed.
+ * @param line The raw line.
+ * @param lineNumber The 1-based line number in the pasted text.
+ * @returns The outcome for the line.
+ */
+function parseRankingLine(line: string, lineNumber: number): ParsedLine {
+  const skip = (reason: string): ParsedLine => ({ lineNumber, text: line, status: 'skipped', reason });
+
+  const { text: withoutBye, bye } = extractByeWeek(line);
+  const tabsReplaced = withoutBye.replace(/\t/g, ' ');
+  const cleanLine = tabsReplaced.split(/ vs | @ /)[0];
+  const parts = cleanLine.trim().split(/\s+/);
+
+  if (parts.length < 2) return skip('Too few words to contain a rank, name and position.');
+  const rankStr = parts[0].replace(/[.\)]$/, '');
+  const rank = parseInt(rankStr, 10);
+  if (isNaN(rank)) return skip('Line does not start with a rank number.');
+
+  const potentialNameParts = parts.slice(1);
+
+  let positionInfo: { base: string; rank?: number } | null = null;
+  let teamInfo: string | null = null;
+  let ambiguity: string | undefined;
+  let nameEndIndex = potentialNameParts.length;
+
+  const p1 = cleanToken(potentialNameParts[nameEndIndex - 1]);
+  const p2 = nameEndIndex > 1 ? cleanToken(potentialNameParts[nameEndIndex - 2]) : null;
+
+  const p1_pos = extractPositionAndRank(p1);
+  const p1_team = isTeam(p1);
+  const p2_pos = p2 ? extractPositionAndRank(p2) : null;
+  const p2_team = p2 ? isTeam(p2) : null;
+
+  if (p1_pos) { // Case: "... Team Pos" or "... Pos"
+    positionInfo = p1_pos;
+    // Generational suffixes like "III" look like team codes but belong to the name.
+    if (p2_team && !NAME_SUFFIXES.includes(p2!)) {
+      teamInfo = p2!.toUpperCase();
+      nameEndIndex -= 2;
+      if (!isKnownTeam(p2!)) {
+        ambiguity = `"${p2}" was read as the team but isn't a known NFL team code.`;
+      }
+    } else {
+      nameEndIndex -= 1;
+    }
+  } else if (p1_team) { // Case: "... Pos Team"
+    teamInfo = p1.toUpperCase();
+    if (p2_pos) {
+      positionInfo = p2_pos;
+      nameEndIndex -= 2;
+    }
+    if (!isKnownTeam(p1)) {
+      ambiguity = `"${p1}" was read as the team but isn't a known NFL team code.`;
+    }
+  }
+
+  if (!positionInfo) return skip('No position (QB, RB, WR, TE, K, DST) found in the last two words.');
+  // Defenses are often listed by team code alone, e.g. "12 SF DST".
+  const isTeamOnlyDefense = nameEndIndex <= 0 && positionInfo.base === 'DST' && teamInfo;
+  if (nameEndIndex <= 0 && !isTeamOnlyDefense) return skip('No player name found before the team and position.');
+
+  const name = isTeamOnlyDefense ? `${teamInfo} DST` : potentialNameParts.slice(0, nameEndIndex).join(' ');
+  // A "(Team - Pos)" block leaves its opening half in the name; another format reads those lines properly.
+  if (!ambiguity && /[()]/.test(name)) {
+    ambiguity = 'The name contains parentheses, so the team and position may not have been read correctly.';
+  }
+  return {
+    lineNumber,
+    text: line,
+    status: ambiguity ? 'ambiguous' : 'parsed',
+    reason: ambiguity,
+    player: {
+      id: getPlayerId({ name, position: positionInfo.base, team: teamInfo ?? undefined }),
+      rank,
+      name,
+      position: positionInfo.base,
+      positionalRank: positionInfo.rank,
+      team: teamInfo ?? undefined,
+      bye,
+    },
+  };
+}
+
+// Rank, name, then team and position in the last two words; matchup text after " vs " or " @ " is ignored
+// and a labeled bye week ("Bye 7") anywhere on the line is kept.
+export const spaceDelimitedParser: RankingsParser = {
+  id: 'space-delimited',
+  name: 'Rank Name Team Pos',
+  example: '1 Christian McCaffrey SF RB1',
+  parse: (text) => {
+    const lines = getNonEmptyLines(text).map(line => parseRankingLine(line.text, line.lineNumber));
+    return { players: lines.filter(line => line.player).map(line => line.player!), lines, parserId: 'space-delimited' };
+  },
+};
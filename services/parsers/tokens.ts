@@ -0,0 +1,133 @@
+import { ParsedLine, Player } from '../../types';
+import { NFL_TEAMS } from '../../constants';
+
+// A list of base positions to check for.
+const BASE_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DST', 'DEF'];
+
+// Name suffixes that would otherwise match the team abbreviation pattern.
+export const NAME_SUFFIXES = ['II', 'III', 'IV'];
+
+/**
+ * Checks if a string part is a valid team abbreviation (2-4 uppercase letters).
+ * @param part The string part to analyze.
+ * @returns True if the part is a team abbreviation.
+ */
+export function isTeam(part: string): boolean {
+    if (!part) return false;
+    // Simple regex for 2-4 uppercase letters, common for team abbreviations.
+    return /^[A-Z]{2,3}$/.test(part);
+}
+
+/**
+ * Checks if a team abbreviation is one of the known NFL team codes.
+ * @param part The string part to analyze.
+ * @returns True if the part is a known NFL team.
+ */
+export function isKnownTeam(part: string): boolean {
+    return NFL_TEAMS.includes(part.toUpperCase());
+}
+
+/**
+ * Describes a team code that was read as the team but isn't a known NFL team.
+ * @param team The team code.
+ * @returns The ambiguity reason, or undefined when the team is known.
+ */
+export function getUnknownTeamReason(team: string): string | undefined {
+  return isKnownTeam(team) ? undefined : `"${team}" was read as the team but isn't a known NFL team code.`;
+}
+
+/**
+ * Extracts a base position and rank from a string part (e.g., "QB1" -> {base: "QB", rank: 1}).
+ * @param part The string part to analyze.
+ * @returns An object with the base position and rank, or null if not a valid position.
+ */
+export function extractPositionAndRank(part: string): { base: string; rank?: number } | null {
+  if (!part) return null;
+  const upperPart = part.toUpperCase();
+
+  for (const pos of BASE_POSITIONS) {
+    if (upperPart.startsWith(pos)) {
+      const rest = upperPart.substring(pos.length);
+      if (/^\d*$/.test(rest)) { // Checks if the rest is empty or numeric
+        const rank = parseInt(rest, 10);
+        return {
+          base: pos === 'DEF' ? 'DST' : pos, // Normalize DEF to DST
+          rank: !isNaN(rank) ? rank : undefined,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Strips punctuation that commonly wraps team/position tokens, e.g. "(DET)" or "D/ST,".
+ * @param part The string part to clean.
+ * @returns The cleaned part.
+ */
+export function cleanToken(part: string): string {
+  return part.replace(/^[(\[]+|[)\],;]+$/g, '').replace(/\//g, '');
+}
+
+/**
+ * Reads a leading rank such as "12", "12." or "12)".
+ * @param part The first word of a line.
+ * @returns The rank, or NaN when the word isn't a rank.
+ */
+export function parseRankToken(part: string): number {
+  return /^\d+[.)]?$/.test(part) ? parseInt(part, 10) : NaN;
+}
+
+// "Bye 7", "(Bye: 7)", "BYE WEEK 7" and the like, anywhere on a line.
+const BYE_PATTERN = /\(?\bbye(?:\s*week)?\s*:?\s*(\d{1,2})\b\)?/i;
+export const MAX_BYE_WEEK = 18;
+
+/**
+ * Pulls a labeled bye week out of a line so the rest can be parsed as usual.
+ * @param line The raw line.
+ * @returns The line without the bye annotation, and the bye week when one was found.
+ */
+export function extractByeWeek(line: string): { text: string; bye?: number } {
+  const match = line.match(BYE_PATTERN);
+  const bye = match ? parseInt(match[1], 10) : NaN;
+  if (!match || bye < 1 || bye > MAX_BYE_WEEK) return { text: line };
+  return { text: line.replace(match[0], ' ').replace(/\s+$/, ''), bye };
+}
+
+/**
+ * Splits pasted text into its non-empty lines, keeping 1-based line numbers for the parse report.
+ * @param text The raw text.
+ * @returns The non-empty lines.
+ */
+export function getNonEmptyLines(text: string): { text: string; lineNumber: number }[] {
+  return text
+    .split('\n')
+    .map((line, index) => ({ text: line, lineNumber: index + 1 }))
+    .filter(line => line.text.trim() !== '');
+}
+
+/**
+ * Builds the outcome for a line a parser couldn't read.
+ * @param line The raw line.
+ * @param lineNumber The 1-based line number.
+ * @param reason Why the line was skipped.
+ * @returns The skipped line.
+ */
+export function skipLine(line: string, lineNumber: number, reason: string): ParsedLine {
+  return { lineNumber, text: line, status: 'skipped', reason };
+}
+
+/**
+ * Numbers players within their position by overall rank, for sources that don't list positional ranks.
+ * Players that already have a positional rank keep it. Mutates the players.
+ * @param players The parsed players.
+ */
+export function fillPositionalRanks(players: Player[]): void {
+  const positionCounts: Record<string, number> = {};
+  for (const player of [...players].sort((a, b) => a.rank - b.rank)) {
+    positionCounts[player.position] = (positionCounts[player.position] || 0) + 1;
+    if (player.positionalRank === undefined) {
+      player.positionalRank = positionCounts[player.position];
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { ParsedLine, RankingsParser } from '../../types';
+import { getPlayerId } from '../playerIdentityService';
+import { cleanToken, extractPositionAndRank, getNonEmptyLines, getUnknownTeamReason, isTeam, MAX_BYE_WEEK, NAME_SUFFIXES, parseRankToken, skipLine } from './tokens';
+
+const isNumberColumn = (part: string) => part === '-' || /^\d+(\.\d+)?$/.test(part);
+
+/**
+ * Parses a line whose team and position are followed by numeric columns such as bye week and ADP.
+ * One trailing number is a bye week when it's a whole week number and an ADP otherwise; with two,
+ * the first is the bye and the second the ADP. A "-" marks an empty column.
+ * @param line The raw line.
+ * @param lineNumber The 1-based line number in the pasted text.
+ * @returns The outcome for the line.
+ */
+function parseTrailingColumnsLine(line: string, lineNumber: number): ParsedLine {
+  const parts = line.replace(/\t/g, ' ').trim().split(/\s+/).map(cleanToken).filter(Boolean);
+  const rank = parseRankToken(parts[0]);
+  if (isNaN(rank)) return skipLine(line, lineNumber, 'Line does not start with a rank number.');
+
+  let end = parts.length;
+  const columns: string[] = [];
+  while (end > 1 && columns.length < 2 && isNumberColumn(parts[end - 1])) {
+    columns.unshift(parts[--end]);
+  }
+  if (columns.length === 0) return skipLine(line, lineNumber, 'No bye week or ADP columns after the position.');
+
+  const last = parts[end - 1];
+  const beforeLast = parts[end - 2];
+  let positionInfo = extractPositionAndRank(last);
+  let team: string | undefined;
+  if (positionInfo) {
+    if (beforeLast && isTeam(beforeLast) && !NAME_SUFFIXES.includes(beforeLast)) {
+      team = beforeLast;
+      end -= 2;
+    } else {
+      end -= 1;
+    }
+  } else if (isTeam(last) && beforeLast && (positionInfo = extractPositionAndRank(beforeLast))) {
+    team = last;
+    end -= 2;
+  }
+  if (!positionInfo) return skipLine(line, lineNumber, 'No position (QB, RB, WR, TE, K, DST) found before the numeric columns.');
+
+  const name = end > 1 ? parts.slice(1, end).join(' ') : positionInfo.base === 'DST' && team ? `${team} DST` : '';
+  if (!name) return skipLine(line, lineNumber, 'No player name found before the team and position.');
+
+  const [first, second] = columns.map(column => column === '-' ? undefined : parseFloat(column));
+  const isByeWeek = (value?: number) => value !== undefined && Number.isInteger(value) && value >= 1 && value <= MAX_BYE_WEEK;
+  const bye = columns.length === 2 ? first : isByeWeek(first) ? first : undefined;
+  const adp = columns.length === 2 ? second : isByeWeek(first) ? undefined : first;
+  const ambiguity = team ? getUnknownTeamReason(team) : undefined;
+
+  return {
+    lineNumber,
+    text: line,
+    status: ambiguity ? 'ambiguous' : 'parsed',
+    reason: ambiguity,
+    player: {
+      id: getPlayerId({ name, position: positionInfo.base, team }),
+      rank,
+      name,
+      position: positionInfo.base,
+      positionalRank: positionInfo.rank,
+      team,
+      ...(bye !== undefined && { bye }),
+      ...(adp !== undefined && { adp }),
+    },
+  };
+}
+
+// Rank, name, team and position followed by bye week and/or ADP columns.
+export const trailingColumnsParser: RankingsParser = {
+  id: 'trailing-columns',
+  name: 'Rank Name Team Pos Bye ADP',
+  example: '1 Christian McCaffrey SF RB1 9 1.2',
+  parse: (text) => {
+    const lines = getNonEmptyLines(text).map(line => parseTrailingColumnsLine(line.text, line.lineNumber));
+    return { players: lines.filter(line => line.player).map(line => line.player!), lines, parserId: 'trailing-columns' };
+  },
+};
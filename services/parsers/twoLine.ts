@@ -0,0 +1,93 @@
+import { ParsedLine, RankingsParser } from '../../types';
+import { getPlayerId } from '../playerIdentityService';
+import { extractPositionAndRank, fillPositionalRanks, getNonEmptyLines, getUnknownTeamReason, isTeam, parseRankToken, skipLine } from './tokens';
+
+/**
+ * Reads a line that holds only a team and position, e.g. "SF - RB" or "RB1 SF".
+ * @param line The raw line.
+ * @returns The position and team, or null when the line is anything else.
+ */
+function parseDetailLine(line: string): { position: { base: string; rank?: number }; team?: string } | null {
+  const parts = line.split(/[\s,\-–/()]+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 3) return null;
+  let position: { base: string; rank?: number } | null = null;
+  let team: string | undefined;
+  for (const part of parts) {
+    const positionInfo = extractPositionAndRank(part);
+    if (positionInfo && !position && /^[A-Z]+\d*$/.test(part)) {
+      position = positionInfo;
+    } else if (isTeam(part) && !team) {
+      team = part;
+    } else {
+      return null;
+    }
+  }
+  return position ? { position, team } : null;
+}
+
+// Site tables often copy as the name on one line and "Team - Pos" on the next, sometimes with the
+// rank alone on the line before the name.
+export const twoLineParser: RankingsParser = {
+  id: 'two-line',
+  name: 'Two lines per player',
+  example: '1. Christian McCaffrey\nSF - RB',
+  parse: (text) => {
+    const lines: ParsedLine[] = [];
+    let pendingRank: { rank: number; lineIndex: number } | null = null;
+    let pendingName: { name: string; rank?: number; text: string; lineNumber: number } | null = null;
+
+    const skipPendingName = () => {
+      if (pendingName) lines.push(skipLine(pendingName.text, pendingName.lineNumber, 'No "Team - Pos" line after this name.'));
+      pendingName = null;
+    };
+
+    for (const line of getNonEmptyLines(text)) {
+      const trimmed = line.text.trim();
+      const detail = parseDetailLine(trimmed);
+      if (detail) {
+        if (!pendingName) {
+          lines.push(skipLine(line.text, line.lineNumber, 'Team and position without a player name on the line before.'));
+          continue;
+        }
+        const { name, text: nameText, lineNumber } = pendingName;
+        const rank = pendingName.rank ?? lines.filter(parsed => parsed.player).length + 1;
+        const ambiguity = detail.team ? getUnknownTeamReason(detail.team) : undefined;
+        lines.push({
+          lineNumber,
+          text: nameText,
+          status: ambiguity ? 'ambiguous' : 'parsed',
+          reason: ambiguity,
+          player: {
+            id: getPlayerId({ name, position: detail.position.base, team: detail.team }),
+            rank,
+            name,
+            position: detail.position.base,
+            positionalRank: detail.position.rank,
+            team: detail.team,
+          },
+        });
+        // The detail line was read as part of the player above it.
+        lines.push({ lineNumber: line.lineNumber, text: line.text, status: 'parsed', isContinuation: true });
+        pendingName = null;
+        continue;
+      }
+
+      skipPendingName();
+      const [first, ...rest] = trimmed.split(/\s+/);
+      const rank = parseRankToken(first);
+      if (!isNaN(rank) && rest.length === 0) {
+        pendingRank = { rank, lineIndex: lines.length };
+        lines.push({ lineNumber: line.lineNumber, text: line.text, status: 'parsed', isContinuation: true });
+        continue;
+      }
+      const rankFromLine = !isNaN(rank) ? rank : pendingRank?.lineIndex === lines.length - 1 ? pendingRank.rank : undefined;
+      pendingName = { name: (isNaN(rank) ? [first, ...rest] : rest).join(' '), rank: rankFromLine, text: line.text, lineNumber: line.lineNumber };
+      pendingRank = null;
+    }
+    skipPendingName();
+
+    const players = lines.filter(line => line.player).map(line => line.player!);
+    fillPositionalRanks(players);
+    return { players, lines, parserId: 'two-line' };
+  },
+};
@@ -0,0 +1,259 @@
+import { isRecord } from './validators';
+
+/**
+ * How one storage key's value is versioned and checked when it's read back.
+ */
+export interface StorageSchema<T> {
+  // The version written with new values.
+  version: number;
+  // migrations[n] upgrades a value saved at version n to version n + 1. Values saved before
+  // versioning are version 0. Steps without a migration keep the value as it is.
+  migrations?: Record<number, (value: unknown) => unknown>;
+  // Returns the value, with anything unusable dropped or defaulted, or undefined when none of it can be used.
+  validate: (value: unknown) => T | undefined;
+}
+
+// Values are saved as { $v, value }; values moved to IndexedDB leave { $v, $idb } behind so
+// reads and other tabs know where to look. $idb is the save time, so every move notifies other tabs.
+interface StoredEnvelope {
+  $v: number;
+  value?: unknown;
+  $idb?: number;
+}
+
+export type StoredRead<T> =
+  | { status: 'missing' }
+  | { status: 'loaded'; value: T }
+  // The value is in IndexedDB and has to be loaded asynchronously.
+  | { status: 'indexedDB' };
+
+const DATABASE_NAME = 'fantasy-rank-visualizer';
+const DATABASE_STORE = 'values';
+const BACKUP_PREFIX = 'backup:';
+// Pointers to IndexedDB are tiny, so longer values can be ruled out without parsing them.
+const MAX_POINTER_LENGTH = 64;
+
+const isEnvelope = (value: unknown): value is StoredEnvelope =>
+  isRecord(value) && typeof value.$v === 'number' && ('value' in value || typeof value.$idb === 'number');
+
+// Key order doesn't matter when checking whether validation changed a value.
+const toComparableJson = (value: unknown): string => JSON.stringify(value, (_, item) =>
+  isRecord(item) ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]])) : item);
+
+const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// The latest write to each key, so a slow IndexedDB save can't replace a newer value.
+const latestWrites = new Map<string, number>();
+let nextWriteId = 1;
+// Called when this tab removes a key, so anything waiting to save it can give up.
+const removalListeners = new Map<string, Set<() => void>>();
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DATABASE_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return databasePromise;
+};
+
+const runRequest = async <R,>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(DATABASE_STORE, mode).objectStore(DATABASE_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Keeps a copy of data that couldn't be read as-is, so a bad load or migration never loses it for good.
+const backUpRawValue = (key: string, raw: string, reason: string) => {
+  console.warn(`Stored "${key}" ${reason}; the original was kept under "${BACKUP_PREFIX}${key}".`);
+  try {
+    localStorage.setItem(`${BACKUP_PREFIX}${key}`, raw);
+  } catch (error) {
+    console.error('Error backing up stored value', error);
+  }
+};
+
+const decodeValue = <T,>(key: string, raw: string, envelope: StoredEnvelope, schema?: StorageSchema<T>): StoredRead<T> => {
+  if (!schema) return { status: 'loaded', value: envelope.value as T };
+  if (envelope.$v > schema.version) {
+    // Saved by a newer version of the app; use it as long as it still passes validation.
+    console.warn(`Stored "${key}" is from a newer version (${envelope.$v} > ${schema.version}).`);
+  }
+  let value = envelope.value;
+  for (let version = envelope.$v; version < schema.version; version++) {
+    const migrate = schema.migrations?.[version];
+    if (!migrate) continue;
+    try {
+      value = migrate(value);
+    } catch (error) {
+      console.error(`Error migrating stored "${key}" from version ${version}`, error);
+      backUpRawValue(key, raw, "couldn't be migrated");
+      return { status: 'missing' };
+    }
+  }
+  const validated = schema.validate(value);
+  if (validated === undefined) {
+    backUpRawValue(key, raw, "didn't have the expected shape and was reset");
+    return { status: 'missing' };
+  }
+  const wasRepaired = toComparableJson(validated) !== toComparableJson(value);
+  if (wasRepaired) {
+    backUpRawValue(key, raw, 'had entries that were dropped or reset');
+  }
+  // Upgraded and repaired values are saved right away, so each is only migrated and backed up once.
+  if (wasRepaired || envelope.$v < schema.version) {
+    writeStoredValue(key, validated, schema);
+  }
+  return { status: 'loaded', value: validated };
+};
+
+const decodeRaw = <T,>(key: string, raw: string, schema?: StorageSchema<T>): StoredRead<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.error('Error parsing JSON from localStorage', error);
+    backUpRawValue(key, raw, "wasn't valid JSON");
+    return { status: 'missing' };
+  }
+  // Values saved before versioning are stored bare.
+  const envelope: StoredEnvelope = isEnvelope(parsed) ? parsed : { $v: 0, value: parsed };
+  if (envelope.$idb !== undefined) return { status: 'indexedDB' };
+  return decodeValue(key, raw, envelope, schema);
+};
+
+const isInDatabase = (key: string): boolean => {
+  const raw = localStorage.getItem(key);
+  if (raw === null || raw.length > MAX_POINTER_LENGTH) return false;
+  try {
+    const parsed = JSON.parse(raw);
+    return isEnvelope(parsed) && parsed.$idb !== undefined;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads a value from localStorage, migrating and validating it.
+ * @param key The storage key.
+ * @param schema The key's schema; without one the value is used as stored.
+ * @returns The value, whether it's missing, or that it has to be loaded from IndexedDB.
+ */
+export function readStoredValue<T,>(key: string, schema?: StorageSchema<T>): StoredRead<T> {
+  const raw = localStorage.getItem(key);
+  return raw === null ? { status: 'missing' } : decodeRaw(key, raw, schema);
+}
+
+/**
+ * Loads a value wherever it's stored, including values that were moved to IndexedDB.
+ * @param key The storage key.
+ * @param schema The key's schema; without one the value is used as stored.
+ * @returns A promise that resolves to the value, or undefined when it's missing or unreadable.
+ */
+export async function loadStoredValue<T,>(key: string, schema?: StorageSchema<T>): Promise<T | undefined> {
+  const read = readStoredValue(key, schema);
+  if (read.status === 'loaded') return read.value;
+  if (read.status === 'missing') return undefined;
+  try {
+    const raw = await runRequest<string | undefined>('readonly', store => store.get(key));
+    if (raw === undefined) return undefined;
+    const fromDatabase = decodeRaw(key, raw, schema);
+    return fromDatabase.status === 'loaded' ? fromDatabase.value : undefined;
+  } catch (error) {
+    console.error('Error reading from IndexedDB', error);
+    return undefined;
+  }
+}
+
+/**
+ * Saves a value with its schema version. When localStorage is full, the value is moved to IndexedDB.
+ * @param key The storage key.
+ * @param value The value to save.
+ * @param schema The key's schema, for its version.
+ */
+export function writeStoredValue<T,>(key: string, value: T, schema?: StorageSchema<T>): void {
+  const version = schema?.version ?? 0;
+  const raw = JSON.stringify({ $v: version, value });
+  const writeId = nextWriteId++;
+  latestWrites.set(key, writeId);
+  const wasInDatabase = isInDatabase(key);
+  try {
+    localStorage.setItem(key, raw);
+    if (wasInDatabase) {
+      runRequest('readwrite', store => store.delete(key)).catch(error => console.error('Error removing from IndexedDB', error));
+    }
+  } catch (error) {
+    if (!isQuotaExceeded(error) || typeof indexedDB === 'undefined') {
+      console.error('Error setting item to localStorage', error);
+      return;
+    }
+    runRequest('readwrite', store => store.put(raw, key))
+      .then(() => {
+        if (latestWrites.get(key) === writeId) {
+          localStorage.setItem(key, JSON.stringify({ $v: version, $idb: Date.now() }));
+        }
+      })
+      .catch(databaseError => console.error('Error saving to IndexedDB', databaseError));
+  }
+}
+
+/**
+ * Removes a value from every backend, along with any backup of it.
+ * @param key The storage key.
+ */
+export function removeStoredValue(key: string): void {
+  const wasInDatabase = isInDatabase(key);
+  latestWrites.delete(key);
+  localStorage.removeItem(key);
+  localStorage.removeItem(`${BACKUP_PREFIX}${key}`);
+  if (wasInDatabase) {
+    runRequest('readwrite', store => store.delete(key)).catch(error => console.error('Error removing from IndexedDB', error));
+  }
+  removalListeners.get(key)?.forEach(listener => listener());
+}
+
+/**
+ * Listens for this tab removing a value, e.g. to drop a save that's waiting to be written.
+ * @param key The storage key.
+ * @param onRemove Called right after the value is removed.
+ * @returns A function that stops listening.
+ */
+export function subscribeToStoredValueRemoval(key: string, onRemove: () => void): () => void {
+  const listeners = removalListeners.get(key) ?? new Set<() => void>();
+  listeners.add(onRemove);
+  removalListeners.set(key, listeners);
+  return () => {
+    listeners.delete(onRemove);
+    if (listeners.size === 0 && removalListeners.get(key) === listeners) removalListeners.delete(key);
+  };
+}
+
+/**
+ * Listens for another tab saving a value.
+ * @param key The storage key.
+ * @param schema The key's schema.
+ * @param onChange Called with the other tab's value once it's been read and validated.
+ * @returns A function that stops listening.
+ */
+export function subscribeToStoredValue<T,>(key: string, schema: StorageSchema<T> | undefined, onChange: (value: T) => void): () => void {
+  let isSubscribed = true;
+  const handleStorage = (event: StorageEvent) => {
+    // A removed key means the data was deleted (e.g. its league), which the other tab handles itself.
+    if (event.storageArea !== localStorage || event.key !== key || event.newValue === null) return;
+    loadStoredValue(key, schema).then(value => {
+      if (isSubscribed && value !== undefined) onChange(value);
+    });
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    isSubscribed = false;
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -0,0 +1,189 @@
+import { Player } from '../types';
+import { normalizeNflTeam } from './stackService';
+
+// Generational suffixes that sources include inconsistently ("Jr." vs none).
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+// Common short first names mapped to the form used as the canonical spelling.
+const NICKNAMES: Record<string, string> = {
+  mike: 'michael',
+  mitch: 'mitchell',
+  chris: 'christopher',
+  matt: 'matthew',
+  rob: 'robert',
+  bob: 'robert',
+  will: 'william',
+  bill: 'william',
+  nick: 'nicholas',
+  tony: 'anthony',
+  jon: 'jonathan',
+  ken: 'kenneth',
+  kenny: 'kenneth',
+  dan: 'daniel',
+  danny: 'daniel',
+  joe: 'joseph',
+  zach: 'zachary',
+  zack: 'zachary',
+  gabe: 'gabriel',
+  cam: 'cameron',
+  josh: 'joshua',
+  jeff: 'jeffery',
+  tom: 'thomas',
+  hollywood: 'marquise',
+  chig: 'chigoziem',
+};
+
+// Team nicknames as they appear in defense names ("San Francisco 49ers", "49ers D/ST").
+const TEAM_NICKNAMES: Record<string, string> = {
+  cardinals: 'ARI', falcons: 'ATL', ravens: 'BAL', bills: 'BUF', panthers: 'CAR', bears: 'CHI',
+  bengals: 'CIN', browns: 'CLE', cowboys: 'DAL', broncos: 'DEN', lions: 'DET', packers: 'GB',
+  texans: 'HOU', colts: 'IND', jaguars: 'JAX', chiefs: 'KC', chargers: 'LAC', rams: 'LAR',
+  raiders: 'LV', dolphins: 'MIA', vikings: 'MIN', patriots: 'NE', saints: 'NO', giants: 'NYG',
+  jets: 'NYJ', eagles: 'PHI', steelers: 'PIT', seahawks: 'SEA', '49ers': 'SF', niners: 'SF',
+  buccaneers: 'TB', bucs: 'TB', titans: 'TEN', commanders: 'WAS',
+};
+
+const ID_SEPARATOR = '|';
+
+/**
+ * Normalizes a player name so different spellings of the same player compare equal:
+ * lowercases, strips accents and punctuation, drops suffixes and maps common nicknames.
+ * @param name The player name as written in a source.
+ * @returns The normalized name.
+ */
+export function normalizePlayerName(name: string): string {
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.'’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(word => word && !NAME_SUFFIXES.has(word))
+    // Join spaced-out initials so "D. J. Moore" matches "DJ Moore".
+    .reduce<string[]>((merged, word) => {
+      const previous = merged[merged.length - 1];
+      if (word.length === 1 && previous && /^[a-z]+$/.test(previous) && previous.length < 3 && merged.length === 1) {
+        merged[merged.length - 1] = previous + word;
+      } else {
+        merged.push(word);
+      }
+      return merged;
+    }, []);
+
+  if (words.length > 1 && NICKNAMES[words[0]]) {
+    words[0] = NICKNAMES[words[0]];
+  }
+  return words.join(' ');
+}
+
+/**
+ * Finds the NFL team a defense belongs to, from its team code or its name.
+ * @param player The defense.
+ * @returns The team code, or undefined if it can't be determined.
+ */
+function getDefenseTeam(player: Pick<Player, 'name' | 'team'>): string | undefined {
+  // Alternate codes ("SFO", "JAC") map to the current one, so every source gives a defense the same id.
+  const team = normalizeNflTeam(player.team);
+  if (team) return team;
+  const words = normalizePlayerName(player.name).split(' ');
+  for (const word of words) {
+    if (TEAM_NICKNAMES[word]) return TEAM_NICKNAMES[word];
+    const code = normalizeNflTeam(word);
+    if (code && Object.values(TEAM_NICKNAMES).includes(code)) return code;
+  }
+  return undefined;
+}
+
+/**
+ * Builds the base identity of a player, before disambiguation against the rest of the rankings.
+ * User aliases are applied to the normalized name.
+ * @param player The player's name and, when known, position and team.
+ * @param aliases Normalized alias name to canonical identity.
+ * @returns The identity key.
+ */
+export function getPlayerId(player: Pick<Player, 'name'> & Partial<Pick<Player, 'position' | 'team'>>, aliases: Record<string, string> = {}): string {
+  if (player.position?.toUpperCase() === 'DST') {
+    const team = getDefenseTeam({ name: player.name, team: player.team });
+    if (team) return `dst ${team.toLowerCase()}`;
+  }
+  const normalized = normalizePlayerName(player.name);
+  return aliases[normalized] ?? normalized;
+}
+
+/**
+ * Brings a stored favorite/team entry (an identity, or a raw name saved by an older version)
+ * to its current canonical identity, applying any aliases added since it was saved.
+ * @param stored The stored identity or name.
+ * @param aliases Normalized alias name to canonical identity.
+ * @returns The canonical identity.
+ */
+export function canonicalizePlayerId(stored: string, aliases: Record<string, string> = {}): string {
+  const [base, ...qualifiers] = stored.split(ID_SEPARATOR);
+  // Defenses saved under an alternate team code move to the current one.
+  const normalized = base.startsWith('dst ')
+    ? `dst ${(normalizeNflTeam(base.slice(4)) ?? base.slice(4)).toLowerCase()}`
+    : normalizePlayerName(base);
+  const canonical = aliases[normalized] ?? normalized;
+  return [canonical, ...qualifiers].join(ID_SEPARATOR);
+}
+
+/**
+ * Assigns an identity to every player. Players that share a normalized name (e.g. two "Mike Williams")
+ * are told apart by position, then by team.
+ * @param players The parsed players.
+ * @param aliases Normalized alias name to canonical identity.
+ * @returns The players with their `id` set.
+ */
+export function assignPlayerIds(players: Player[], aliases: Record<string, string> = {}): Player[] {
+  const baseIds = players.map(player => getPlayerId(player, aliases));
+  const counts = new Map<string, number>();
+  baseIds.forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+
+  const positionIds = players.map((player, i) =>
+    counts.get(baseIds[i])! > 1 ? [baseIds[i], player.position.toLowerCase()].join(ID_SEPARATOR) : baseIds[i]
+  );
+  const positionCounts = new Map<string, number>();
+  positionIds.forEach(id => positionCounts.set(id, (positionCounts.get(id) || 0) + 1));
+
+  return players.map((player, i) => {
+    const needsTeam = positionCounts.get(positionIds[i])! > 1 && player.team;
+    const id = needsTeam ? [positionIds[i], player.team!.toLowerCase()].join(ID_SEPARATOR) : positionIds[i];
+    return player.id === id ? player : { ...player, id };
+  });
+}
+
+/**
+ * Finds the player a stored identity refers to. An unqualified identity that has since become
+ * ambiguous resolves to the best-ranked player with that name.
+ * @param storedId The stored identity, already canonicalized.
+ * @param playersById The current players indexed by identity.
+ * @returns The matching player, or undefined if the player isn't in the current rankings.
+ */
+export function resolvePlayer(storedId: string, playersById: Map<string, Player>): Player | undefined {
+  const exact = playersById.get(storedId);
+  if (exact) return exact;
+
+  const base = storedId.split(ID_SEPARATOR)[0];
+  let best: Player | undefined;
+  for (const [id, player] of playersById) {
+    if (id.split(ID_SEPARATOR)[0] === base && (!best || player.rank < best.rank)) {
+      best = player;
+    }
+  }
+  return best;
+}
+
+/**
+ * Turns an identity back into a readable name, for players missing from the current rankings.
+ * @param id The player identity.
+ * @returns A title-cased name, with any disambiguating qualifiers in parentheses.
+ */
+export function formatPlayerId(id: string): string {
+  const [base, ...qualifiers] = id.split(ID_SEPARATOR);
+  const name = base.startsWith('dst ')
+    ? `${base.slice(4).toUpperCase()} DST`
+    : base.replace(/\b\w/g, char => char.toUpperCase());
+  return qualifiers.length ? `${name} (${qualifiers.map(q => q.toUpperCase()).join(', ')})` : name;
+}
@@ -0,0 +1,55 @@
+import { Player } from '../types';
+
+// Overrides store a sort key per player id on the same scale as source ranks, so a player dragged
+// between the source's #4 and #5 gets 4.5. Keys outlive re-pastes: a player that still matches
+// keeps its spot relative to the new source ranks, and new players slot in by their source rank.
+
+const getSortKey = (player: Player, overrides: Record<string, number>) => overrides[player.id] ?? player.sourceRank ?? player.rank;
+
+/**
+ * Layers personal rank overrides on top of source rankings.
+ * @param players The players with their source ranks.
+ * @param overrides Sort keys by player id.
+ * @returns The players in personal order with `rank` renumbered from 1 and the source rank kept
+ * in `sourceRank`. Positional ranks are renumbered for positions that have an override.
+ */
+export function applyRankOverrides(players: Player[], overrides: Record<string, number>): Player[] {
+  const overriddenPositions = new Set(players.filter(player => overrides[player.id] !== undefined).map(player => player.position));
+  if (overriddenPositions.size === 0) return players;
+
+  const sorted = [...players].sort((a, b) => getSortKey(a, overrides) - getSortKey(b, overrides) || a.rank - b.rank);
+  const positionCounts: Record<string, number> = {};
+  return sorted.map((player, index) => {
+    positionCounts[player.position] = (positionCounts[player.position] || 0) + 1;
+    return {
+      ...player,
+      rank: index + 1,
+      sourceRank: player.rank,
+      positionalRank: overriddenPositions.has(player.position) ? positionCounts[player.position] : player.positionalRank,
+    };
+  });
+}
+
+/**
+ * Computes the override that moves a player next to another one in the personal order.
+ * @param rankedPlayers Every player in the current personal order.
+ * @param overrides The current overrides.
+ * @param movedId The player being moved.
+ * @param targetId The player to move next to.
+ * @param placeAfter Whether to place the moved player after the target instead of before it.
+ * @returns The moved player's new sort key, or null when either player isn't ranked.
+ */
+export function getMovedSortKey(rankedPlayers: Player[], overrides: Record<string, number>, movedId: string, targetId: string, placeAfter: boolean): number | null {
+  const others = rankedPlayers.filter(player => player.id !== movedId);
+  const targetIndex = others.findIndex(player => player.id === targetId);
+  if (targetIndex === -1 || !rankedPlayers.some(player => player.id === movedId)) return null;
+
+  const before = placeAfter ? others[targetIndex] : others[targetIndex - 1];
+  const after = placeAfter ? others[targetIndex + 1] : others[targetIndex];
+  const beforeKey = before ? getSortKey(before, overrides) : undefined;
+  const afterKey = after ? getSortKey(after, overrides) : undefined;
+
+  if (beforeKey === undefined) return afterKey! - 1;
+  if (afterKey === undefined) return beforeKey + 1;
+  return (beforeKey + afterKey) / 2;
+}
@@ -0,0 +1,91 @@
+import { LeagueSettings, LineupEntry, LineupSlot, Player, RosterReport } from '../types';
+import { FLEX_POSITIONS, SUPERFLEX_POSITIONS } from '../constants';
+
+// Dedicated slots are filled before the flex slots so a flex never takes a player a dedicated slot needs.
+const DEDICATED_SLOTS: { slot: LineupSlot; key: keyof LeagueSettings }[] = [
+  { slot: 'QB', key: 'qb' },
+  { slot: 'RB', key: 'rb' },
+  { slot: 'WR', key: 'wr' },
+  { slot: 'TE', key: 'te' },
+  { slot: 'K', key: 'k' },
+  { slot: 'DST', key: 'dst' },
+];
+
+/**
+ * Gets the number of starting lineup slots a league uses.
+ * @param settings The league lineup settings.
+ * @returns The total number of starters.
+ */
+export function getStarterCount(settings: LeagueSettings): number {
+  return settings.qb + settings.rb + settings.wr + settings.te + settings.flex + settings.superflex + settings.k + settings.dst;
+}
+
+/**
+ * Picks the best starting lineup from a roster, treating a better overall rank as a better player.
+ * @param roster The players on the team.
+ * @param settings The league lineup settings.
+ * @returns The starting slots in lineup order (empty slots have no player) and the remaining bench, best first.
+ */
+export function buildOptimalLineup(roster: Player[], settings: LeagueSettings): { starters: LineupEntry[]; bench: Player[] } {
+  const available = [...roster].sort((a, b) => a.rank - b.rank);
+  const starters: LineupEntry[] = [];
+
+  const take = (slot: LineupSlot, eligible: string[]) => {
+    const index = available.findIndex(player => eligible.includes(player.position.toUpperCase()));
+    starters.push({ slot, player: index === -1 ? undefined : available.splice(index, 1)[0] });
+  };
+
+  for (const { slot, key } of DEDICATED_SLOTS) {
+    for (let i = 0; i < settings[key]; i++) take(slot, [slot]);
+  }
+  for (let i = 0; i < settings.flex; i++) take('FLEX', FLEX_POSITIONS);
+  for (let i = 0; i < settings.superflex; i++) take('SUPERFLEX', SUPERFLEX_POSITIONS);
+
+  return { starters, bench: available };
+}
+
+/**
+ * Breaks a roster down by position, projects its optimal lineup and flags problems:
+ * empty starting slots, more players than the roster holds, and positions hogging the bench.
+ * @param roster The players on the team that were found in the current rankings.
+ * @param settings The league lineup settings.
+ * @returns The roster report.
+ */
+export function buildRosterReport(roster: Player[], settings: LeagueSettings): RosterReport {
+  const positionCounts: Record<string, number> = {};
+  for (const player of roster) {
+    const position = player.position.toUpperCase();
+    positionCounts[position] = (positionCounts[position] || 0) + 1;
+  }
+
+  const { starters, bench } = buildOptimalLineup(roster, settings);
+  const warnings: string[] = [];
+
+  const emptySlots: Record<string, number> = {};
+  for (const entry of starters) {
+    if (!entry.player) emptySlots[entry.slot] = (emptySlots[entry.slot] || 0) + 1;
+  }
+  for (const [slot, count] of Object.entries(emptySlots)) {
+    warnings.push(`No one to start at ${slot}${count > 1 ? ` (${count} empty slots)` : ''}.`);
+  }
+
+  const rosterSize = getStarterCount(settings) + settings.bench;
+  if (roster.length > rosterSize) {
+    warnings.push(`${roster.length} players is ${roster.length - rosterSize} more than the ${rosterSize} roster spots.`);
+  }
+
+  const benchCounts: Record<string, number> = {};
+  for (const player of bench) {
+    const position = player.position.toUpperCase();
+    benchCounts[position] = (benchCounts[position] || 0) + 1;
+  }
+  for (const [position, count] of Object.entries(benchCounts)) {
+    // Kickers and defenses are rarely worth a second bench spot; other positions shouldn't take over the bench.
+    const limit = position === 'K' || position === 'DST' ? 1 : Math.max(1, Math.ceil(settings.bench / 2));
+    if (count > limit) {
+      warnings.push(`Overloaded at ${position}: ${count} on the bench.`);
+    }
+  }
+
+  return { positionCounts, starters, bench, warnings };
+}
@@ -0,0 +1,54 @@
+import { Player, RankChange, SnapshotDiff } from '../types';
+
+/**
+ * Compares two sets of rankings by player identity.
+ * @param previous The older rankings.
+ * @param current The newer rankings.
+ * @returns Risers and fallers sorted by the size of the move, plus players added to or dropped from the rankings.
+ */
+export function diffRankings(previous: Player[], current: Player[]): SnapshotDiff {
+  const previousById = new Map(previous.map(player => [player.id, player]));
+  const currentIds = new Set(current.map(player => player.id));
+  const diff: SnapshotDiff = { risers: [], fallers: [], added: [], dropped: [] };
+
+  for (const player of current) {
+    const before = previousById.get(player.id);
+    if (!before) {
+      diff.added.push({ player, currentRank: player.rank, delta: 0 });
+      continue;
+    }
+    // A positive delta means the player moved up the board.
+    const delta = before.rank - player.rank;
+    const change = { player, previousRank: before.rank, currentRank: player.rank, delta };
+    if (delta > 0) diff.risers.push(change);
+    if (delta < 0) diff.fallers.push(change);
+  }
+
+  for (const player of previous) {
+    if (!currentIds.has(player.id)) {
+      diff.dropped.push({ player, previousRank: player.rank, delta: 0 });
+    }
+  }
+
+  diff.risers.sort((a, b) => b.delta - a.delta);
+  diff.fallers.sort((a, b) => a.delta - b.delta);
+  diff.added.sort((a, b) => a.currentRank! - b.currentRank!);
+  diff.dropped.sort((a, b) => a.previousRank! - b.previousRank!);
+  return diff;
+}
+
+/**
+ * Gets each current player's rank movement since a baseline, for trend indicators.
+ * @param baseline The rankings to compare against.
+ * @param current The current rankings.
+ * @returns A map of player identity to rank delta (positive is up), or null for players new since the baseline.
+ */
+export function getRankTrends(baseline: Player[], current: Player[]): Map<string, number | null> {
+  const baselineRanks = new Map(baseline.map(player => [player.id, player.rank]));
+  const trends = new Map<string, number | null>();
+  for (const player of current) {
+    const previousRank = baselineRanks.get(player.id);
+    trends.set(player.id, previousRank === undefined ? null : previousRank - player.rank);
+  }
+  return trends;
+}
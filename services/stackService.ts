@@ -0,0 +1,85 @@
+import { Player, QbStack, StackRole } from '../types';
+import { NFL_TEAMS, NFL_TEAM_ALTERNATES, STACK_POSITIONS } from '../constants';
+
+/**
+ * Maps a team code to the current code for that team, so e.g. "JAC" and "JAX" match.
+ * @param team The team code as written in the rankings.
+ * @returns The normalized code, or undefined for a missing team or a free agent.
+ */
+export function normalizeNflTeam(team: string | undefined): string | undefined {
+  const code = team?.trim().toUpperCase();
+  if (!code || code === 'FA') return undefined;
+  return NFL_TEAM_ALTERNATES[code] ?? code;
+}
+
+/**
+ * Reads pasted matchups, one game per line, e.g. "BUF @ MIA", "KC vs DEN" or "SF,LAR".
+ * Lines without any team code (like "Week 17") are ignored. Team codes must be written in capitals,
+ * so words like "no" or "la" aren't read as teams.
+ * @param text The pasted schedule.
+ * @returns Each team's opponent, and the lines that didn't name exactly two teams.
+ */
+export function parseMatchups(text: string): { opponents: Record<string, string>; skippedLines: string[] } {
+  const opponents: Record<string, string> = {};
+  const skippedLines: string[] = [];
+
+  for (const line of text.split('\n')) {
+    const teams = line
+      .split(/[^A-Za-z]+/)
+      .filter(token => NFL_TEAMS.includes(token) && token !== 'FA')
+      .map(token => normalizeNflTeam(token)!);
+    if (teams.length === 0) continue;
+    if (teams.length !== 2 || teams[0] === teams[1]) {
+      skippedLines.push(line.trim());
+      continue;
+    }
+    opponents[teams[0]] = teams[1];
+    opponents[teams[1]] = teams[0];
+  }
+  return { opponents, skippedLines };
+}
+
+const isStackPosition = (player: Player) => STACK_POSITIONS.includes(player.position.toUpperCase());
+
+/**
+ * Finds the players that stack with a quarterback: pass catchers from the same NFL team and, when the QB's
+ * opponent is known, bring-back pass catchers from the other side of the game.
+ * @param qb The quarterback.
+ * @param players The players to search.
+ * @param opponents Each team's opponent.
+ * @returns The stack role of each partner, by player id.
+ */
+export function getStackPartners(qb: Player, players: Player[], opponents: Record<string, string>): Map<string, StackRole> {
+  const partners = new Map<string, StackRole>();
+  const team = normalizeNflTeam(qb.team);
+  if (!team) return partners;
+  const opponent = opponents[team];
+
+  for (const player of players) {
+    if (player.id === qb.id || !isStackPosition(player)) continue;
+    const playerTeam = normalizeNflTeam(player.team);
+    if (playerTeam === team) partners.set(player.id, 'teammate');
+    else if (opponent && playerTeam === opponent) partners.set(player.id, 'bringBack');
+  }
+  return partners;
+}
+
+/**
+ * Lists the QB stacks on a roster: each quarterback with at least one pass catcher from the same NFL team.
+ * @param roster The team's players.
+ * @param opponents Each team's opponent, used to find bring-backs.
+ * @returns The stacks, best-ranked quarterback first.
+ */
+export function findStacks(roster: Player[], opponents: Record<string, string>): QbStack[] {
+  return roster
+    .filter(player => player.position.toUpperCase() === 'QB')
+    .sort((a, b) => a.rank - b.rank)
+    .map(qb => {
+      const partners = getStackPartners(qb, roster, opponents);
+      const byRank = (role: StackRole) => roster
+        .filter(player => partners.get(player.id) === role)
+        .sort((a, b) => a.rank - b.rank);
+      return { qb, teammates: byRank('teammate'), bringBacks: byRank('bringBack') };
+    })
+    .filter(stack => stack.teammates.length > 0);
+}
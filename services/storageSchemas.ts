@@ -0,0 +1,100 @@
+import { DraftSettings, ExposureThresholds, LeagueSettings, MockDraftSettings } from '../types';
+import { DEFAULT_DRAFT_SETTINGS, DEFAULT_EXPOSURE_THRESHOLDS, DEFAULT_LEAGUE_SETTINGS, DEFAULT_MOCK_DRAFT_SETTINGS } from '../constants';
+import { StorageSchema } from './persistedStore';
+import { getPlayerId } from './playerIdentityService';
+import {
+  isBoardView, isBoolean, isColumnMapping, isDraftPick, isLeague, isPlayerNote, isPlayerTag, isRankingSource, isRecord, isSnapshot, isString, isTeam,
+} from './validators';
+
+const valueOf = <T,>(isValid: (value: unknown) => value is T): StorageSchema<T> => ({
+  version: 1,
+  validate: value => isValid(value) ? value : undefined,
+});
+
+// Lists keep the items that are still readable.
+const listOf = <T,>(isItem: (value: unknown) => value is T): StorageSchema<T[]> => ({
+  version: 1,
+  validate: value => Array.isArray(value) ? value.filter(isItem) : undefined,
+});
+
+// Maps keep the entries that are still readable.
+const mapOf = <T,>(isEntry: (value: unknown) => value is T): StorageSchema<Record<string, T>> => ({
+  version: 1,
+  validate: value => isRecord(value)
+    ? Object.fromEntries(Object.entries<unknown>(value).filter((entry): entry is [string, T] => isEntry(entry[1])))
+    : undefined,
+});
+
+// Settings keep each field that still has the right type and fall back to the default for the rest.
+const settingsLike = <T extends object,>(defaults: T, isFieldValid: (field: string, value: unknown) => boolean = () => true): StorageSchema<T> => ({
+  version: 1,
+  validate: value => {
+    if (!isRecord(value)) return undefined;
+    const fallbacks = defaults as Record<string, unknown>;
+    const settings: Record<string, unknown> = { ...fallbacks };
+    for (const [field, fallback] of Object.entries<unknown>(fallbacks)) {
+      const stored = value[field];
+      settings[field] = typeof stored === typeof fallback && isFieldValid(field, stored) ? stored : fallback;
+    }
+    return settings as T;
+  },
+});
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isDraftSettingsField = (field: string, value: unknown) => field !== 'order' || value === 'snake' || value === 'linear';
+
+// Storage schemas by base key. Per-league keys ("fantasyTeams:<league id>") use their base key's schema,
+// and keys without a schema are used as stored.
+export const STORAGE_SCHEMAS: Record<string, StorageSchema<unknown>> = {
+  fantasyLeagues: listOf(isLeague),
+  fantasyActiveLeague: valueOf(isString),
+  fantasyRankingsText: valueOf(isString),
+  fantasyRankingsParser: valueOf(isString),
+  fantasyRankingSources: listOf(isRankingSource),
+  fantasyFavorites: listOf(isString),
+  fantasyTeams: listOf(isTeam),
+  activeFantasyTeams: listOf(isString),
+  fantasyDraftMode: valueOf(isBoolean),
+  fantasyDraftSettings: settingsLike<DraftSettings>(DEFAULT_DRAFT_SETTINGS, isDraftSettingsField),
+  fantasyDraftPicks: listOf(isDraftPick),
+  fantasyMockDraftSettings: settingsLike<MockDraftSettings>(DEFAULT_MOCK_DRAFT_SETTINGS, isDraftSettingsField),
+  fantasyTierSensitivity: valueOf(isNumber),
+  fantasyTierBreaks: listOf(isString),
+  fantasyPlayerAliases: mapOf(isString),
+  fantasyRankingSnapshots: {
+    ...listOf(isSnapshot),
+    migrations: {
+      // Snapshots saved before players had ids get the ids they would have been given.
+      0: value => Array.isArray(value)
+        ? value.map(snapshot => isSnapshot(snapshot)
+          ? { ...snapshot, players: snapshot.players.map(player => player.id ? player : { ...player, id: getPlayerId(player) }) }
+          : snapshot)
+        : value,
+    },
+  },
+  fantasyTrendBaseline: valueOf((value): value is string | null => value === null || isString(value)),
+  fantasyColumnMappings: mapOf(isColumnMapping),
+  fantasyLeagueSettings: settingsLike<LeagueSettings>(DEFAULT_LEAGUE_SETTINGS),
+  fantasyBoardView: valueOf(isBoardView),
+  fantasyOverallPositions: listOf(isString),
+  fantasyFlexPositions: listOf(isString),
+  fantasyFlexIncludesQb: valueOf(isBoolean),
+  fantasyShowValues: valueOf(isBoolean),
+  fantasyRankOverrides: mapOf(isNumber),
+  fantasyPlayerTags: listOf(isPlayerTag),
+  fantasyPlayerNotes: mapOf(isPlayerNote),
+  fantasySchedule: valueOf(isString),
+  fantasyByeWeeks: valueOf(isString),
+  fantasyExposureThresholds: settingsLike<ExposureThresholds>(DEFAULT_EXPOSURE_THRESHOLDS),
+};
+
+/**
+ * Finds the schema for a storage key.
+ * @param key The storage key, possibly with a league suffix.
+ * @returns The schema, or undefined when the key's value is used as stored. The caller names the type
+ * its value is kept as, which the schema's validation guarantees.
+ */
+export function getStorageSchema<T = unknown,>(key: string): StorageSchema<T> | undefined {
+  return STORAGE_SCHEMAS[key.split(':')[0]] as StorageSchema<T> | undefined;
+}
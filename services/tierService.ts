@@ -0,0 +1,41 @@
+import { Player } from '../types';
+
+export const MIN_TIER_SENSITIVITY = 0;
+export const MAX_TIER_SENSITIVITY = 10;
+
+/**
+ * Assigns tiers to the players of a single position based on the gaps between their overall ranks.
+ * A gap starts a new tier when it is larger than the mean gap plus a number of standard deviations
+ * that shrinks as the sensitivity grows. A sensitivity of 0 disables automatic breaks. When every player
+ * carries a tier from the source rankings, those tiers are used instead of the rank gaps.
+ * @param players The players of one position, sorted by rank.
+ * @param sensitivity How eagerly to break tiers, from 0 (manual only) to 10 (most tiers).
+ * @param manualBreaks Identities of players that always start a new tier.
+ * @returns A map of player identity to 1-based tier number.
+ */
+export function computeTiers(players: Player[], sensitivity: number, manualBreaks: Set<string>): Map<string, number> {
+  const tiers = new Map<string, number>();
+  if (players.length === 0) return tiers;
+
+  const gaps = players.slice(1).map((player, i) => player.rank - players[i].rank);
+  const meanGap = gaps.length ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : 0;
+  const stdDev = gaps.length
+    ? Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - meanGap) ** 2, 0) / gaps.length)
+    : 0;
+  const threshold = meanGap + ((MAX_TIER_SENSITIVITY - sensitivity) / 5) * stdDev;
+  const hasSourceTiers = players.every(player => player.tier !== undefined);
+
+  let tier = 1;
+  tiers.set(players[0].id, tier);
+  for (let i = 1; i < players.length; i++) {
+    const gap = gaps[i - 1];
+    const isAutoBreak = hasSourceTiers
+      ? players[i].tier !== players[i - 1].tier
+      : sensitivity > MIN_TIER_SENSITIVITY && gap > 1 && gap > threshold;
+    if (isAutoBreak || manualBreaks.has(players[i].id)) {
+      tier++;
+    }
+    tiers.set(players[i].id, tier);
+  }
+  return tiers;
+}
@@ -0,0 +1,58 @@
+import { LeagueSettings, LineupEntry, Player, TradeAnalysis, TradeSide } from '../types';
+import { buildOptimalLineup } from './rosterService';
+
+// A trade is called fair when the sides' starting-lineup gains are within this many value points,
+// or within this share of the value changing hands, whichever is larger.
+const FAIR_MARGIN_POINTS = 5;
+const FAIR_MARGIN_SHARE = 0.1;
+
+const sumValues = (players: Player[], values: Map<string, number>) =>
+  players.reduce((total, player) => total + (values.get(player.id) ?? 0), 0);
+
+const sumStarterValues = (starters: LineupEntry[], values: Map<string, number>) =>
+  sumValues(starters.flatMap(entry => entry.player ? [entry.player] : []), values);
+
+const evaluateSide = (roster: Player[], outgoing: Player[], incoming: Player[], settings: LeagueSettings, values: Map<string, number>): TradeSide => {
+  const outgoingIds = new Set(outgoing.map(player => player.id));
+  const rosterAfter = [...roster.filter(player => !outgoingIds.has(player.id)), ...incoming];
+  const startersBefore = buildOptimalLineup(roster, settings).starters;
+  const startersAfter = buildOptimalLineup(rosterAfter, settings).starters;
+  return {
+    rosterValueBefore: sumValues(roster, values),
+    rosterValueAfter: sumValues(rosterAfter, values),
+    starterValueBefore: sumStarterValues(startersBefore, values),
+    starterValueAfter: sumStarterValues(startersAfter, values),
+    startersBefore,
+    startersAfter,
+  };
+};
+
+/**
+ * Evaluates a trade between two teams by how it changes each side's value and starting lineup.
+ * @param rosters The two teams' rosters.
+ * @param outgoing The players each team gives up, in the same order as `rosters`.
+ * @param settings The league lineup settings.
+ * @param values Each player's value by id.
+ * @returns Both sides' before and after values and lineups, and which side the trade favors.
+ */
+export function analyzeTrade(
+  rosters: [Player[], Player[]],
+  outgoing: [Player[], Player[]],
+  settings: LeagueSettings,
+  values: Map<string, number>
+): TradeAnalysis {
+  const sides: [TradeSide, TradeSide] = [
+    evaluateSide(rosters[0], outgoing[0], outgoing[1], settings, values),
+    evaluateSide(rosters[1], outgoing[1], outgoing[0], settings, values),
+  ];
+  const gains = sides.map(side => side.starterValueAfter - side.starterValueBefore);
+  const margin = gains[0] - gains[1];
+  const tradedValue = Math.max(sumValues(outgoing[0], values), sumValues(outgoing[1], values));
+  const fairMargin = Math.max(FAIR_MARGIN_POINTS, tradedValue * FAIR_MARGIN_SHARE);
+
+  return {
+    sides,
+    favoredSide: Math.abs(margin) <= fairMargin ? null : margin > 0 ? 0 : 1,
+    margin: Math.abs(margin),
+  };
+}
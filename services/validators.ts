@@ -0,0 +1,53 @@
+import { BoardView, ColumnMapping, DraftPick, FantasyTeam, League, Player, PlayerNote, PlayerTag, RankingSource, RankingsSnapshot } from '../types';
+import { PLAYER_FIELDS } from './csvImportService';
+import { BOARD_VIEW_OPTIONS } from '../constants';
+
+// Shape checks for data read back from files, share links and browser storage.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+export const isBoardView = (value: unknown): value is BoardView => BOARD_VIEW_OPTIONS.some(option => option.view === value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+export const isStringRecord = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every(isString);
+
+export const isNumberRecord = <K extends string,>(value: unknown, keys: K[]): value is Record<string, unknown> & Record<K, number> =>
+  isRecord(value) && keys.every(key => typeof value[key] === 'number');
+
+// Column indexes by player field, as saved for a CSV header.
+export const isColumnMapping = (value: unknown): value is ColumnMapping =>
+  isRecord(value) && Object.entries(value).every(([field, column]) =>
+    (PLAYER_FIELDS as string[]).includes(field) && typeof column === 'number' && Number.isInteger(column) && column >= 0);
+
+export const isTeam = (value: unknown): value is FantasyTeam =>
+  isRecord(value) && isString(value.name) && isString(value.color) && isStringArray(value.players);
+
+export const isPlayerNote = (value: unknown): value is PlayerNote =>
+  isRecord(value) && isString(value.text) && isStringArray(value.tags);
+
+export const isPlayerTag = (value: unknown): value is PlayerTag =>
+  isRecord(value) && isString(value.name) && isString(value.color);
+
+export const isPlayer = (value: unknown): value is Player =>
+  isRecord(value) && typeof value.rank === 'number' && isString(value.name) && isString(value.position);
+
+export const isRankingSource = (value: unknown): value is RankingSource =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.text);
+
+export const isDraftPick = (value: unknown): value is DraftPick =>
+  isRecord(value) && typeof value.slot === 'number' && isString(value.playerId) && isString(value.playerName);
+
+export const isSnapshot = (value: unknown): value is RankingsSnapshot =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.createdAt)
+    && Array.isArray(value.players) && value.players.every(isPlayer);
+
+export const isLeague = (value: unknown): value is League =>
+  isRecord(value) && isString(value.id) && isString(value.name);
@@ -0,0 +1,98 @@
+import { LeagueSettings, Player, ReplacementLevel, ValueModel } from '../types';
+import { FLEX_POSITIONS, SUPERFLEX_POSITIONS } from '../constants';
+
+// Rankings carry no projections, so points are estimated from overall rank on an exponential
+// curve: the top player is worth 100 and each pick is worth a little less than the one before.
+const TOP_PLAYER_POINTS = 100;
+const POINTS_DECAY = 60;
+
+const DEDICATED_STARTERS: { position: string; key: keyof LeagueSettings }[] = [
+  { position: 'QB', key: 'qb' },
+  { position: 'RB', key: 'rb' },
+  { position: 'WR', key: 'wr' },
+  { position: 'TE', key: 'te' },
+  { position: 'K', key: 'k' },
+  { position: 'DST', key: 'dst' },
+];
+
+/**
+ * Estimates a player's points from their overall rank.
+ * @param rank The overall rank.
+ * @returns The estimated points.
+ */
+export function getRankPoints(rank: number): number {
+  return TOP_PLAYER_POINTS * Math.exp(-(Math.max(rank, 1) - 1) / POINTS_DECAY);
+}
+
+/**
+ * Counts how many players at each position start across the league. Dedicated slots are
+ * filled first; each flex and superflex slot then goes to the best remaining eligible player.
+ * @param players The ranked players.
+ * @param leagueSize The number of teams.
+ * @param settings The league lineup settings.
+ * @returns The number of starters per position.
+ */
+export function getStarterDemand(players: Player[], leagueSize: number, settings: LeagueSettings): Record<string, number> {
+  const demand: Record<string, number> = {};
+  const sorted = [...players].sort((a, b) => a.rank - b.rank);
+  const startingIds = new Set<string>();
+
+  for (const { position, key } of DEDICATED_STARTERS) {
+    const count = settings[key] * leagueSize;
+    demand[position] = count;
+    sorted
+      .filter(player => player.position.toUpperCase() === position)
+      .slice(0, count)
+      .forEach(player => startingIds.add(player.id));
+  }
+
+  const fillFlex = (slots: number, eligible: string[]) => {
+    const candidates = sorted.filter(player => eligible.includes(player.position.toUpperCase()) && !startingIds.has(player.id));
+    for (const player of candidates.slice(0, slots)) {
+      startingIds.add(player.id);
+      const position = player.position.toUpperCase();
+      demand[position] = (demand[position] || 0) + 1;
+    }
+  };
+  fillFlex(settings.flex * leagueSize, FLEX_POSITIONS);
+  fillFlex(settings.superflex * leagueSize, SUPERFLEX_POSITIONS);
+
+  return demand;
+}
+
+/**
+ * Scores every player by value over replacement: their points minus the points of the best
+ * player at their position who wouldn't start in the league.
+ * @param players The ranked players.
+ * @param leagueSize The number of teams.
+ * @param settings The league lineup settings.
+ * @returns Each player's value by id and the replacement level for each position.
+ */
+export function buildValueModel(players: Player[], leagueSize: number, settings: LeagueSettings): ValueModel {
+  const demand = getStarterDemand(players, leagueSize, settings);
+  const sorted = [...players].sort((a, b) => a.rank - b.rank);
+  const replacementLevels: Record<string, ReplacementLevel> = {};
+  const values = new Map<string, number>();
+
+  const byPosition: Record<string, Player[]> = {};
+  for (const player of sorted) {
+    const position = player.position.toUpperCase();
+    if (!byPosition[position]) {
+      byPosition[position] = [];
+    }
+    byPosition[position].push(player);
+  }
+
+  for (const [position, positionPlayers] of Object.entries<Player[]>(byPosition)) {
+    const starters = demand[position] || 0;
+    // When the rankings run out before the replacement player, the last one listed stands in.
+    const replacement = positionPlayers[starters] ?? positionPlayers[positionPlayers.length - 1];
+    const points = starters === 0 ? getRankPoints(positionPlayers[0].rank) : getRankPoints(replacement.rank);
+    replacementLevels[position] = { starters, player: positionPlayers[starters], points };
+    for (const player of positionPlayers) {
+      values.set(player.id, getRankPoints(player.rank) - points);
+    }
+  }
+
+  return { values, replacementLevels };
+}
@@ -0,0 +1,304 @@
+import { FantasyTeam, SharedView, Workspace } from '../types';
+import { DEFAULT_DRAFT_SETTINGS, DEFAULT_EXPOSURE_THRESHOLDS, DEFAULT_LEAGUE_SETTINGS, DEFAULT_MOCK_DRAFT_SETTINGS, DEFAULT_PLAYER_TAGS } from '../constants';
+import { assignPlayerIds } from './playerIdentityService';
+import { AUTO_DETECT_PARSER_ID, getParser } from './parsers';
+import { isBoardView, isBoolean, isColumnMapping, isDraftPick, isNumberRecord, isPlayerNote, isPlayerTag, isRankingSource, isRecord, isSnapshot, isString, isStringArray, isStringRecord, isTeam } from './validators';
+
+export const WORKSPACE_VERSION = 1;
+export const SHARE_HASH_PREFIX = '#share=';
+
+// Each field is optional in the file so hand-trimmed exports still import; a field that is
+// present must have the right shape, otherwise the whole file is rejected.
+function readField<T>(data: Record<string, unknown>, key: string, isValid: (value: unknown) => boolean, fallback: T, description: string): T {
+  if (data[key] === undefined) return fallback;
+  if (!isValid(data[key])) {
+    throw new Error(`The workspace file's "${key}" should be ${description}.`);
+  }
+  return data[key] as T;
+}
+
+/**
+ * Builds an empty workspace, used as the base for files that leave fields out.
+ * @returns A workspace with default settings and no data.
+ */
+export function createEmptyWorkspace(): Workspace {
+  return {
+    version: WORKSPACE_VERSION,
+    exportedAt: new Date().toISOString(),
+    leagueName: '',
+    rankingsText: '',
+    rankingsParserId: AUTO_DETECT_PARSER_ID,
+    favorites: [],
+    teams: [],
+    activeTeams: [],
+    rankingSources: [],
+    draftSettings: DEFAULT_DRAFT_SETTINGS,
+    draftPicks: [],
+    tierSensitivity: 5,
+    tierBreaks: [],
+    aliases: {},
+    snapshots: [],
+    trendBaselineId: null,
+    columnMappings: {},
+    leagueSettings: DEFAULT_LEAGUE_SETTINGS,
+    rankOverrides: {},
+    playerTags: DEFAULT_PLAYER_TAGS,
+    playerNotes: {},
+    mockDraftSettings: DEFAULT_MOCK_DRAFT_SETTINGS,
+    exposureThresholds: DEFAULT_EXPOSURE_THRESHOLDS,
+    scheduleText: '',
+    byeWeekText: '',
+    boardView: 'POSITION',
+    overallPositions: [],
+    flexPositions: [],
+    flexIncludesQb: false,
+    showValues: true,
+  };
+}
+
+/**
+ * Reads and validates an exported workspace file.
+ * @param json The contents of the file.
+ * @returns The workspace, with defaults for any fields the file leaves out.
+ * @throws An error describing the problem when the file isn't a valid workspace.
+ */
+export function parseWorkspace(json: string): Workspace {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+  if (!isRecord(data) || typeof data.version !== 'number') {
+    throw new Error("The file isn't a Fantasy Rank Visualizer workspace export.");
+  }
+  if (data.version > WORKSPACE_VERSION) {
+    throw new Error('The workspace was exported by a newer version of the app.');
+  }
+
+  const empty = createEmptyWorkspace();
+  return {
+    version: WORKSPACE_VERSION,
+    exportedAt: readField(data, 'exportedAt', value => typeof value === 'string', empty.exportedAt, 'a date'),
+    leagueName: readField(data, 'leagueName', value => typeof value === 'string', empty.leagueName, 'a league name'),
+    rankingsText: readField(data, 'rankingsText', value => typeof value === 'string', empty.rankingsText, 'text'),
+    rankingsParserId: readField(
+      data, 'rankingsParserId',
+      value => value === AUTO_DETECT_PARSER_ID || (typeof value === 'string' && getParser(value) !== undefined),
+      empty.rankingsParserId, 'a known rankings format'
+    ),
+    favorites: readField(data, 'favorites', isStringArray, empty.favorites, 'a list of player ids'),
+    teams: readField(data, 'teams', value => Array.isArray(value) && value.every(isTeam), empty.teams, 'a list of teams with a name, color and players'),
+    activeTeams: readField(data, 'activeTeams', isStringArray, empty.activeTeams, 'a list of team names'),
+    rankingSources: readField(
+      data, 'rankingSources',
+      value => Array.isArray(value) && value.every(isRankingSource),
+      empty.rankingSources, 'a list of ranking sources'
+    ),
+    draftSettings: readField(
+      data, 'draftSettings',
+      value => isNumberRecord(value, ['leagueSize', 'mySlot']) && (value.order === 'snake' || value.order === 'linear'),
+      empty.draftSettings, 'draft settings'
+    ),
+    draftPicks: readField(
+      data, 'draftPicks',
+      value => Array.isArray(value) && value.every(isDraftPick),
+      empty.draftPicks, 'a list of draft picks'
+    ),
+    tierSensitivity: readField(data, 'tierSensitivity', value => typeof value === 'number', empty.tierSensitivity, 'a number'),
+    tierBreaks: readField(data, 'tierBreaks', isStringArray, empty.tierBreaks, 'a list of player ids'),
+    aliases: readField(data, 'aliases', isStringRecord, empty.aliases, 'a map of alias names to player ids'),
+    snapshots: readField(
+      data, 'snapshots',
+      value => Array.isArray(value) && value.every(isSnapshot),
+      empty.snapshots, 'a list of rankings snapshots'
+    ),
+    trendBaselineId: readField(data, 'trendBaselineId', value => value === null || typeof value === 'string', empty.trendBaselineId, 'a snapshot id'),
+    columnMappings: readField(data, 'columnMappings', value => isRecord(value) && Object.values(value).every(isColumnMapping), empty.columnMappings, 'a map of column mappings'),
+    leagueSettings: readField(
+      data, 'leagueSettings',
+      value => isNumberRecord(value, ['qb', 'rb', 'wr', 'te', 'flex', 'superflex', 'k', 'dst', 'bench']),
+      empty.leagueSettings, 'league lineup settings'
+    ),
+    rankOverrides: readField(
+      data, 'rankOverrides',
+      value => isRecord(value) && Object.values(value).every(key => typeof key === 'number'),
+      empty.rankOverrides, 'a map of player ids to personal ranks'
+    ),
+    playerTags: readField(
+      data, 'playerTags',
+      value => Array.isArray(value) && value.every(isPlayerTag),
+      empty.playerTags, 'a list of tags with a name and color'
+    ),
+    playerNotes: readField(
+      data, 'playerNotes',
+      value => isRecord(value) && Object.values(value).every(isPlayerNote),
+      empty.playerNotes, 'a map of player ids to notes and tags'
+    ),
+    mockDraftSettings: readField(
+      data, 'mockDraftSettings',
+      value => isNumberRecord(value, ['leagueSize', 'mySlot', 'randomness']) && (value.order === 'snake' || value.order === 'linear'),
+      empty.mockDraftSettings, 'mock draft settings'
+    ),
+    exposureThresholds: readField(
+      data, 'exposureThresholds',
+      value => isNumberRecord(value, ['player', 'nflTeam']),
+      empty.exposureThresholds, 'exposure thresholds'
+    ),
+    scheduleText: readField(data, 'scheduleText', value => typeof value === 'string', empty.scheduleText, 'text'),
+    byeWeekText: readField(data, 'byeWeekText', value => typeof value === 'string', empty.byeWeekText, 'text'),
+    boardView: readField(data, 'boardView', isBoardView, empty.boardView, 'a board view'),
+    overallPositions: readField(data, 'overallPositions', isStringArray, empty.overallPositions, 'a list of positions'),
+    flexPositions: readField(data, 'flexPositions', isStringArray, empty.flexPositions, 'a list of positions'),
+    flexIncludesQb: readField(data, 'flexIncludesQb', isBoolean, empty.flexIncludesQb, 'true or false'),
+    showValues: readField(data, 'showValues', isBoolean, empty.showValues, 'true or false'),
+  };
+}
+
+const unionBy = <T,>(current: T[], incoming: T[], getKey: (item: T) => string): T[] => {
+  const keys = new Set(current.map(getKey));
+  return [...current, ...incoming.filter(item => !keys.has(getKey(item)))];
+};
+
+/**
+ * Merges an imported workspace into the current one. Current data and settings win; the import
+ * only adds what's missing. Imported teams whose name is taken by a different team are added under a new name.
+ * @param current The workspace in this browser.
+ * @param incoming The imported workspace.
+ * @returns The merged workspace.
+ */
+export function mergeWorkspaces(current: Workspace, incoming: Workspace): Workspace {
+  const teamNames = new Set(current.teams.map(team => team.name.toLowerCase()));
+  const renamedTeams: Record<string, string> = {};
+  const isAlreadySaved = (team: FantasyTeam) => current.teams.some(existing =>
+    existing.name === team.name && existing.players.join('\n') === team.players.join('\n'));
+  const importedTeams = incoming.teams.filter(team => !isAlreadySaved(team)).map(team => {
+    let name = team.name;
+    for (let i = 1; teamNames.has(name.toLowerCase()); i++) {
+      name = `${team.name} (imported${i > 1 ? ` ${i}` : ''})`;
+    }
+    teamNames.add(name.toLowerCase());
+    renamedTeams[team.name] = name;
+    return { ...team, name };
+  });
+
+  // The rankings format goes with whichever rankings text is kept.
+  const keepsRankings = current.rankingsText.trim() !== '';
+  return {
+    ...current,
+    rankingsText: keepsRankings ? current.rankingsText : incoming.rankingsText,
+    rankingsParserId: keepsRankings ? current.rankingsParserId : incoming.rankingsParserId,
+    favorites: Array.from(new Set([...current.favorites, ...incoming.favorites])),
+    teams: [...current.teams, ...importedTeams],
+    activeTeams: Array.from(new Set([...current.activeTeams, ...incoming.activeTeams.map(name => renamedTeams[name] ?? name)])),
+    rankingSources: unionBy(current.rankingSources, incoming.rankingSources, source => source.name.toLowerCase()),
+    draftPicks: current.draftPicks.length > 0 ? current.draftPicks : incoming.draftPicks,
+    tierBreaks: Array.from(new Set([...current.tierBreaks, ...incoming.tierBreaks])),
+    aliases: { ...incoming.aliases, ...current.aliases },
+    snapshots: unionBy(current.snapshots, incoming.snapshots, snapshot => snapshot.id),
+    trendBaselineId: current.trendBaselineId ?? incoming.trendBaselineId,
+    columnMappings: { ...incoming.columnMappings, ...current.columnMappings },
+    rankOverrides: { ...incoming.rankOverrides, ...current.rankOverrides },
+    playerTags: unionBy(current.playerTags, incoming.playerTags, tag => tag.name.toLowerCase()),
+    playerNotes: { ...incoming.playerNotes, ...current.playerNotes },
+    scheduleText: current.scheduleText.trim() ? current.scheduleText : incoming.scheduleText,
+    byeWeekText: current.byeWeekText.trim() ? current.byeWeekText : incoming.byeWeekText,
+  };
+}
+
+// Share links store players as [rank, name, position, positionalRank, team] tuples and refer to
+// them by index, which keeps the hash short and independent of the sender's aliases.
+type SharedPlayer = [number, string, string, number | null, string | null];
+
+interface SharedPayload {
+  k: SharedView['kind'];
+  t: string;
+  p: SharedPlayer[];
+  f: number[];
+  g: { n: string; c: string; p: number[] }[];
+}
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(index => Number.isInteger(index) && index >= 0);
+
+const isSharedPlayer = (value: unknown): value is SharedPlayer =>
+  Array.isArray(value) && value.length === 5
+  && typeof value[0] === 'number' && typeof value[1] === 'string' && typeof value[2] === 'string'
+  && (value[3] === null || typeof value[3] === 'number') && (value[4] === null || typeof value[4] === 'string');
+
+const isSharedPayload = (value: unknown): value is SharedPayload =>
+  isRecord(value) && Array.isArray(value.p) && value.p.every(isSharedPlayer) && isIndexList(value.f)
+  && Array.isArray(value.g) && value.g.every(team => isRecord(team) && isString(team.n) && isString(team.c) && isIndexList(team.p));
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Encodes a read-only view for the hash of a share link.
+ * @param view The players, favorites and teams to share. Favorites and team players are ids of `view.players`.
+ * @returns The compressed, URL-safe encoding.
+ */
+export async function encodeSharedView(view: SharedView): Promise<string> {
+  const indexById = new Map(view.players.map((player, index) => [player.id, index]));
+  const toIndexes = (ids: string[]) => ids.map(id => indexById.get(id)).filter((index): index is number => index !== undefined);
+  const payload: SharedPayload = {
+    k: view.kind,
+    t: view.title,
+    p: view.players.map(player => [player.rank, player.name, player.position, player.positionalRank ?? null, player.team ?? null]),
+    f: toIndexes(view.favorites),
+    g: view.teams.map(team => ({ n: team.name, c: team.color, p: toIndexes(team.players) })),
+  };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decodes the hash of a share link.
+ * @param encoded The encoding produced by `encodeSharedView`.
+ * @returns The shared view.
+ * @throws An error when the link is damaged or incomplete.
+ */
+export async function decodeSharedView(encoded: string): Promise<SharedView> {
+  let payload: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This share link is damaged or incomplete.');
+  }
+  // Everything is checked up front, so a damaged or hand-edited link can't break the shared board.
+  if (!isSharedPayload(payload)) {
+    throw new Error('This share link is damaged or incomplete.');
+  }
+
+  const players = assignPlayerIds(payload.p.map(([rank, name, position, positionalRank, team]) => ({
+    id: '',
+    rank,
+    name,
+    position,
+    ...(positionalRank !== null && { positionalRank }),
+    ...(team !== null && { team }),
+  })));
+  const toIds = (indexes: number[]) => indexes.map(index => players[index]?.id).filter((id): id is string => id !== undefined);
+
+  return {
+    kind: payload.k === 'team' ? 'team' : 'board',
+    title: String(payload.t ?? ''),
+    players,
+    favorites: toIds(payload.f),
+    teams: payload.g.map(team => ({ name: team.n, color: team.c, players: toIds(team.p) })),
+  };
+}
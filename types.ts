@@ -1,15 +1,312 @@
 // Fix: Removed self-import of 'Player' which caused a naming conflict.
 
 export interface Player {
+  id: string;
   rank: number;
   name: string;
   position: string;
   positionalRank?: number;
   team?: string;
+  bye?: number;
+  adp?: number;
+  tier?: number;
+  // The rank from the pasted source, set when personal rank overrides reorder the list.
+  sourceRank?: number;
 }
 
 export interface FantasyTeam {
   name: string;
   players: string[];
   color: string;
-}
\ No newline at end of file
+}
+
+// A user-defined label such as "sleeper" or "avoid" that can be put on any player.
+export interface PlayerTag {
+  name: string;
+  color: string;
+}
+
+// Free-text notes and tag names for one player, stored by player id.
+export interface PlayerNote {
+  text: string;
+  tags: string[];
+}
+
+export interface League {
+  id: string;
+  name: string;
+}
+
+export interface RankingSource {
+  id: string;
+  name: string;
+  text: string;
+}
+
+export interface ConsensusPlayer extends Player {
+  averageRank: number;
+  medianRank: number;
+  bestRank: number;
+  worstRank: number;
+  stdDev: number;
+  sourceCount: number;
+  ranksBySource: Record<string, number | undefined>;
+}
+
+export type DraftOrder = 'snake' | 'linear';
+
+export interface DraftSettings {
+  leagueSize: number;
+  order: DraftOrder;
+  mySlot: number;
+}
+
+export interface DraftPick {
+  slot: number;
+  playerId: string;
+  playerName: string;
+}
+
+export interface MockDraftSettings extends DraftSettings {
+  // 0 picks strictly by rank; 1 lets computer teams reach about a round.
+  randomness: number;
+}
+
+export interface MockDraftTeam {
+  slot: number;
+  roster: Player[];
+  starterValue: number;
+  rosterValue: number;
+}
+
+export interface MockDraftSummary {
+  teams: MockDraftTeam[];
+  // 1-based standing of the user's team by starter value.
+  myRank: number;
+  positions: { position: string; mine: number; average: number }[];
+}
+
+export type PlayerField = 'rank' | 'name' | 'team' | 'position' | 'bye' | 'adp' | 'tier';
+
+export type ColumnMapping = Partial<Record<PlayerField, number>>;
+
+export type ParseLineStatus = 'parsed' | 'skipped' | 'ambiguous';
+
+export interface ParsedLine {
+  lineNumber: number;
+  text: string;
+  status: ParseLineStatus;
+  reason?: string;
+  player?: Player;
+  // Read as part of a player on a neighbouring line (e.g. a rank or detail line), so it isn't a player line of its own.
+  isContinuation?: boolean;
+}
+
+export interface ParseResult {
+  players: Player[];
+  lines: ParsedLine[];
+  // The registered parser that produced the result, when one did.
+  parserId?: string;
+}
+
+export interface RankingsParser {
+  id: string;
+  name: string;
+  example: string;
+  parse: (text: string) => ParseResult;
+}
+
+export interface ParserScore {
+  parserId: string;
+  score: number;
+}
+
+export interface RankingsSnapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  players: Player[];
+}
+
+export interface RankChange {
+  player: Player;
+  previousRank?: number;
+  currentRank?: number;
+  delta: number;
+}
+
+export interface SnapshotDiff {
+  risers: RankChange[];
+  fallers: RankChange[];
+  added: RankChange[];
+  dropped: RankChange[];
+}
+
+export interface LeagueSettings {
+  qb: number;
+  rb: number;
+  wr: number;
+  te: number;
+  flex: number;
+  superflex: number;
+  k: number;
+  dst: number;
+  bench: number;
+}
+
+export type LineupSlot = 'QB' | 'RB' | 'WR' | 'TE' | 'FLEX' | 'SUPERFLEX' | 'K' | 'DST';
+
+export interface LineupEntry {
+  slot: LineupSlot;
+  player?: Player;
+}
+
+export interface RosterReport {
+  positionCounts: Record<string, number>;
+  starters: LineupEntry[];
+  bench: Player[];
+  warnings: string[];
+}
+
+export interface QbStack {
+  qb: Player;
+  // Pass catchers from the QB's NFL team.
+  teammates: Player[];
+  // Pass catchers from the QB's opponent, when schedule data is provided.
+  bringBacks: Player[];
+}
+
+export type StackRole = 'teammate' | 'bringBack';
+
+export interface ByeWeekGroup {
+  week: number;
+  players: Player[];
+  starters: Player[];
+}
+
+export interface ByeCalendar {
+  weeks: ByeWeekGroup[];
+  // Weeks where the starting lineup takes too big a hit.
+  conflictWeeks: number[];
+  warnings: string[];
+  missingByes: Player[];
+}
+
+// One line of an exported board image.
+export interface BoardImageRow {
+  label: string;
+  name: string;
+  detail?: string;
+  highlightColors: string[];
+  isFavorite: boolean;
+  // Set on the first player of a tier, to draw the tier heading above them.
+  tierLabel?: string;
+}
+
+export interface BoardImageColumn {
+  title: string;
+  rows: BoardImageRow[];
+}
+
+export interface PlayerExposure {
+  player: Player;
+  teamNames: string[];
+  // Fraction of saved teams that roster the player.
+  share: number;
+}
+
+export interface GroupExposure {
+  key: string;
+  count: number;
+  // Fraction of all rostered players that fall in the group.
+  share: number;
+}
+
+export interface ExposureReport {
+  teamCount: number;
+  pickCount: number;
+  players: PlayerExposure[];
+  positions: GroupExposure[];
+  nflTeams: GroupExposure[];
+}
+
+// Exposure limits in percent; anything above them is flagged.
+export interface ExposureThresholds {
+  player: number;
+  nflTeam: number;
+}
+
+// An export of the active league's data and the app-wide data and preferences. Other leagues aren't included.
+export interface Workspace {
+  version: number;
+  exportedAt: string;
+  // The league the export was taken from, shown when importing.
+  leagueName: string;
+  rankingsText: string;
+  rankingsParserId: string;
+  favorites: string[];
+  teams: FantasyTeam[];
+  activeTeams: string[];
+  rankingSources: RankingSource[];
+  draftSettings: DraftSettings;
+  draftPicks: DraftPick[];
+  tierSensitivity: number;
+  tierBreaks: string[];
+  aliases: Record<string, string>;
+  snapshots: RankingsSnapshot[];
+  trendBaselineId: string | null;
+  columnMappings: Record<string, ColumnMapping>;
+  leagueSettings: LeagueSettings;
+  rankOverrides: Record<string, number>;
+  playerTags: PlayerTag[];
+  playerNotes: Record<string, PlayerNote>;
+  mockDraftSettings: MockDraftSettings;
+  exposureThresholds: ExposureThresholds;
+  scheduleText: string;
+  byeWeekText: string;
+  boardView: BoardView;
+  overallPositions: string[];
+  flexPositions: string[];
+  flexIncludesQb: boolean;
+  showValues: boolean;
+}
+
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+export interface SharedView {
+  kind: 'board' | 'team';
+  title: string;
+  players: Player[];
+  favorites: string[];
+  teams: FantasyTeam[];
+}
+
+// 'POSITION' shows one table per position; 'ALL' and 'FLEX' are the combined boards from POSITIONS.
+export type BoardView = 'POSITION' | 'ALL' | 'FLEX';
+
+export interface ReplacementLevel {
+  starters: number;
+  player?: Player;
+  points: number;
+}
+
+export interface ValueModel {
+  values: Map<string, number>;
+  replacementLevels: Record<string, ReplacementLevel>;
+}
+
+export interface TradeSide {
+  rosterValueBefore: number;
+  rosterValueAfter: number;
+  starterValueBefore: number;
+  starterValueAfter: number;
+  startersBefore: LineupEntry[];
+  startersAfter: LineupEntry[];
+}
+
+export interface TradeAnalysis {
+  sides: [TradeSide, TradeSide];
+  // Index of the side that comes out ahead, or null when the trade is within the fairness margin.
+  favoredSide: 0 | 1 | null;
+  margin: number;
+}